@@ -9,6 +9,7 @@ import {
   useActiveCode
 } from "@codesandbox/sandpack-react";
 import { SandpackAgent } from "@/components/SandpackAgent";
+import { QuickOpen } from "@/components/QuickOpen";
 import {
   ResizablePanelGroup,
   ResizablePanel,
@@ -25,6 +26,7 @@ import {
 import type { Message } from "@/hooks/useSandpackAgent";
 import { useGit } from "@/hooks/useGit";
 import { useAuth } from "@/contexts/AuthContext";
+import { recordManualEdit } from "@/lib/editJournal";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -104,6 +106,11 @@ function SyncedCodeEditor() {
           ...prev,
           [activeFile]: code
         }));
+
+        // Journal the edit for diff_history; the agent's own writes are recognized and skipped
+        if (previousCode !== undefined) {
+          recordManualEdit(activeFile, previousCode, code);
+        }
         
         // Mark file as changed
         if (window.changedFilePaths) {
@@ -169,6 +176,7 @@ function SyncedCodeEditor() {
         wrapContent
         closableTabs
       />
+      <QuickOpen />
     </div>
   );
 }
@@ -211,7 +219,7 @@ export default function App({ repo, setRepo }: AppProps) {
   const [prLink, setPrLink] = useState("");
   const [diffOutput, setDiffOutput] = useState("");
   const { sandpack } = useSandpack();
-  const { logout, isAuthenticated, anthropicApiKey, githubApiKey } = useAuth();
+  const { logout, isAuthenticated, githubApiKey } = useAuth();
   const { 
     isLoading, 
     error: gitError, 
@@ -639,7 +647,6 @@ export default function App({ repo, setRepo }: AppProps) {
                   <SandpackAgent
                     messages={chatMessages}
                     setMessages={setChatMessages}
-                    apiKey={anthropicApiKey || ""}
                     onRequestApiKey={() => logout()}
                     testResults={testResults}
                   />
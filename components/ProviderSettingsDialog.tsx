@@ -0,0 +1,277 @@
+"use client";
+import React, { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DEFAULT_MAX_TOKENS,
+  MIN_THINKING_BUDGET,
+  useLLMSettings,
+  type ProviderSettings,
+} from "@/contexts/LLMSettingsContext";
+import { PROVIDERS, type ProviderId } from "@/lib/providers";
+
+interface ProviderSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ProviderSettingsDialog({ open, onOpenChange }: ProviderSettingsDialogProps) {
+  const { providerSettings, updateProviderSettings, openaiApiKey, setOpenaiApiKey } = useLLMSettings();
+  const [draft, setDraft] = useState<ProviderSettings>(providerSettings);
+  const [openaiKeyDraft, setOpenaiKeyDraft] = useState("");
+
+  // Start from the saved settings every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(providerSettings);
+      setOpenaiKeyDraft(openaiApiKey || "");
+    }
+  }, [open, providerSettings, openaiApiKey]);
+
+  const handleProviderChange = (provider: ProviderId) => {
+    // The search endpoint does not depend on the provider, so it is kept
+    setDraft((prev) => ({
+      ...prev,
+      provider,
+      baseUrl: "",
+      model: PROVIDERS[provider].defaultModel,
+      commitModel: "",
+      applyModel: "",
+      embeddingModel: "",
+    }));
+  };
+
+  const handleSave = async () => {
+    updateProviderSettings(draft);
+    if (draft.provider === "openai" && openaiKeyDraft !== (openaiApiKey || "")) {
+      try {
+        await setOpenaiApiKey(openaiKeyDraft || null);
+      } catch (error) {
+        console.error("Failed to save OpenAI-compatible API key:", error);
+      }
+    }
+    onOpenChange(false);
+  };
+
+  const info = PROVIDERS[draft.provider];
+
+  // Why the generation settings cannot be saved, if they cannot
+  const generationError = (() => {
+    const maxTokens = draft.maxTokens ? Number(draft.maxTokens) : DEFAULT_MAX_TOKENS.chat;
+    if (!Number.isInteger(maxTokens) || maxTokens <= 0) return "Max tokens must be a whole number above zero.";
+    if (draft.temperature && !(Number(draft.temperature) >= 0)) return "Temperature cannot be negative.";
+    if (draft.provider === "anthropic" && draft.thinkingBudget) {
+      const budget = Number(draft.thinkingBudget);
+      if (!Number.isInteger(budget) || budget < MIN_THINKING_BUDGET) {
+        return `The thinking budget must be at least ${MIN_THINKING_BUDGET} tokens.`;
+      }
+      if (budget >= maxTokens) return "The thinking budget must be below max tokens, which include it.";
+    }
+    return null;
+  })();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Model Settings</DialogTitle>
+          <DialogDescription>
+            Choose where the assistant sends its requests and how it answers. Local servers keep everything on your machine.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+          <div className="space-y-2">
+            <Label htmlFor="provider">Provider</Label>
+            <select
+              id="provider"
+              value={draft.provider}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              className="w-full h-10 px-3 text-sm border rounded-md bg-background"
+            >
+              {(Object.keys(PROVIDERS) as ProviderId[]).map((id) => (
+                <option key={id} value={id}>
+                  {PROVIDERS[id].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="provider-base-url">Endpoint</Label>
+            <Input
+              id="provider-base-url"
+              value={draft.baseUrl}
+              onChange={(e) => setDraft((prev) => ({ ...prev, baseUrl: e.target.value }))}
+              placeholder={info.defaultBaseUrl}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="provider-model">Model</Label>
+            <Input
+              id="provider-model"
+              value={draft.model}
+              onChange={(e) => setDraft((prev) => ({ ...prev, model: e.target.value }))}
+              placeholder={info.defaultModel}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="provider-commit-model">Commit message model (optional)</Label>
+            <Input
+              id="provider-commit-model"
+              value={draft.commitModel}
+              onChange={(e) => setDraft((prev) => ({ ...prev, commitModel: e.target.value }))}
+              placeholder={draft.model || info.defaultModel}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="provider-apply-model">Apply model (optional)</Label>
+            <Input
+              id="provider-apply-model"
+              value={draft.applyModel}
+              onChange={(e) => setDraft((prev) => ({ ...prev, applyModel: e.target.value }))}
+              placeholder="Merge failed edits without a model"
+            />
+            <p className="text-xs text-muted-foreground">
+              A fast model the assistant can use to fit an edit that did not apply onto the current file.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="provider-max-tokens">Max tokens</Label>
+              <Input
+                id="provider-max-tokens"
+                type="number"
+                min="1"
+                step="1000"
+                value={draft.maxTokens}
+                onChange={(e) => setDraft((prev) => ({ ...prev, maxTokens: e.target.value }))}
+                placeholder={String(DEFAULT_MAX_TOKENS.chat)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="provider-temperature">Temperature</Label>
+              <Input
+                id="provider-temperature"
+                type="number"
+                min="0"
+                step="0.1"
+                value={draft.temperature}
+                onChange={(e) => setDraft((prev) => ({ ...prev, temperature: e.target.value }))}
+                placeholder="Provider default"
+              />
+            </div>
+          </div>
+
+          {draft.provider === "anthropic" && (
+            <div className="space-y-2">
+              <Label htmlFor="provider-thinking-budget">Thinking budget (optional)</Label>
+              <Input
+                id="provider-thinking-budget"
+                type="number"
+                min={MIN_THINKING_BUDGET}
+                step="1024"
+                value={draft.thinkingBudget}
+                onChange={(e) => setDraft((prev) => ({ ...prev, thinkingBudget: e.target.value }))}
+                placeholder="No extended thinking"
+              />
+              <p className="text-xs text-muted-foreground">
+                Tokens the assistant may spend thinking before it answers, counted within max tokens. Thinking runs at the default temperature.
+              </p>
+            </div>
+          )}
+
+          {generationError && (
+            <p className="text-xs text-destructive">{generationError}</p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="provider-search-endpoint">Search endpoint (optional)</Label>
+            <Input
+              id="provider-search-endpoint"
+              value={draft.searchEndpoint}
+              onChange={(e) => setDraft((prev) => ({ ...prev, searchEndpoint: e.target.value }))}
+              placeholder="Search the local documentation index"
+            />
+            <p className="text-xs text-muted-foreground">
+              A URL answering GET ?q=&amp;limit= with JSON results, used by web search instead of the React docs, project markdown and dependency READMEs.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="provider-spending-cap">Spending cap in USD (optional)</Label>
+            <Input
+              id="provider-spending-cap"
+              type="number"
+              min="0"
+              step="0.5"
+              value={draft.spendingCap}
+              onChange={(e) => setDraft((prev) => ({ ...prev, spendingCap: e.target.value }))}
+              placeholder="No cap"
+            />
+            <p className="text-xs text-muted-foreground">
+              The assistant stops sending requests once this chat has cost this much. Only models with a known price count towards it.
+            </p>
+          </div>
+
+          {draft.provider !== "anthropic" && (
+            <div className="space-y-2">
+              <Label htmlFor="provider-embedding-model">Embedding model (optional)</Label>
+              <Input
+                id="provider-embedding-model"
+                value={draft.embeddingModel}
+                onChange={(e) => setDraft((prev) => ({ ...prev, embeddingModel: e.target.value }))}
+                placeholder={draft.provider === "ollama" ? "nomic-embed-text" : "text-embedding-3-small"}
+              />
+              <p className="text-xs text-muted-foreground">
+                Lets codebase search find code by meaning as well as by keywords. Leave empty to rank by keywords only.
+              </p>
+            </div>
+          )}
+
+          {draft.provider === "openai" && (
+            <div className="space-y-2">
+              <Label htmlFor="provider-api-key">API Key (optional for local servers)</Label>
+              <Input
+                id="provider-api-key"
+                type="password"
+                value={openaiKeyDraft}
+                onChange={(e) => setOpenaiKeyDraft(e.target.value)}
+                placeholder="sk-..."
+              />
+            </div>
+          )}
+
+          {draft.provider === "anthropic" && (
+            <p className="text-xs text-muted-foreground">
+              Uses the Anthropic API key you entered when logging in.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!draft.model.trim() || !!generationError}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useSandpack } from "@codesandbox/sandpack-react";
+import { FileIcon } from "lucide-react";
+
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { fuzzySearch } from "@/lib/fuzzy";
+import { createGitignoreFilter } from "@/lib/glob";
+import { snapshotFiles } from "@/lib/checkpoints";
+
+const MAX_RESULTS = 50;
+
+// A path with the characters that matched the query in bold
+function HighlightedPath({ path, positions }: { path: string; positions: number[] }) {
+  const matched = new Set(positions);
+  const nameStart = path.lastIndexOf("/") + 1;
+  const renderRange = (start: number, end: number) =>
+    path.slice(start, end).split("").map((char, offset) =>
+      matched.has(start + offset) ? (
+        <span key={start + offset} className="font-semibold text-foreground">{char}</span>
+      ) : (
+        char
+      )
+    );
+
+  return (
+    <span className="flex min-w-0 items-baseline gap-2">
+      <span className="truncate">{renderRange(nameStart, path.length)}</span>
+      <span className="truncate text-xs text-muted-foreground">{renderRange(0, nameStart)}</span>
+    </span>
+  );
+}
+
+/**
+ * Ctrl+P (Cmd+P on macOS) file picker for the editor, ranked with the same fuzzy
+ * matcher as the agent's file_search. Files excluded by .gitignore are not offered.
+ */
+export function QuickOpen() {
+  const { sandpack } = useSandpack();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && !event.shiftKey && !event.altKey && event.key.toLowerCase() === "p") {
+        // Instead of the browser's print dialog
+        event.preventDefault();
+        setOpen(true);
+      }
+    };
+    // Capture, so the shortcut works while the code editor has focus
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, []);
+
+  const paths = useMemo(() => {
+    if (!open) return [];
+    const ignored = createGitignoreFilter(snapshotFiles(sandpack.files));
+    return Object.keys(sandpack.files).filter((path) => !sandpack.files[path].hidden && !ignored(path));
+  }, [open, sandpack.files]);
+
+  const results = useMemo(() => fuzzySearch(query, paths, { limit: MAX_RESULTS }), [query, paths]);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  // Keep the selected result in view while moving with the arrow keys
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: "nearest" });
+  }, [selected]);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) setQuery("");
+  };
+
+  const openResult = (path: string | undefined) => {
+    if (!path) return;
+    sandpack.openFile(path);
+    handleOpenChange(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setSelected((index) => Math.min(index + 1, results.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setSelected((index) => Math.max(index - 1, 0));
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      openResult(results[selected]?.item);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="top-[20%] translate-y-0 gap-2 p-2 sm:max-w-xl">
+        <DialogTitle className="sr-only">Go to file</DialogTitle>
+        <Input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search files by name"
+          className="pr-8"
+        />
+        <div ref={listRef} className="max-h-80 overflow-y-auto" role="listbox">
+          {results.map(({ item, positions }, index) => (
+            <button
+              key={item}
+              type="button"
+              role="option"
+              aria-selected={index === selected}
+              onMouseEnter={() => setSelected(index)}
+              onClick={() => openResult(item)}
+              className={`flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm text-muted-foreground ${
+                index === selected ? "bg-accent" : ""
+              }`}
+            >
+              <FileIcon className="h-4 w-4 shrink-0" />
+              <HighlightedPath path={item} positions={positions} />
+            </button>
+          ))}
+          {results.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">No matching files</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
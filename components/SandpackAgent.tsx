@@ -1,5 +1,5 @@
 "use client";
-import React, { useState, useRef, useEffect, useCallback } from "react";
+import React, { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import {
   SendIcon,
   BotIcon,
@@ -7,10 +7,22 @@ import {
   Wrench,
   ChevronDown,
   ChevronUp,
+  SquareIcon,
+  Settings2Icon,
+  ClockIcon,
+  Undo2Icon,
+  Redo2Icon,
+  HistoryIcon,
+  FileDiffIcon,
+  CheckIcon,
+  XIcon,
+  PlayIcon,
 } from "lucide-react";
+import { SandpackTests, useSandpack } from "@codesandbox/sandpack-react";
 
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Toggle } from "@/components/ui/toggle";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import {
@@ -19,18 +31,55 @@ import {
   AnthropicMessage,
   DEFAULT_SYSTEM_PROMPT,
   DEFAULT_TOOLS,
+  DEFAULT_CONTINUE_STEPS,
   UserTextMessage,
   AssistantTextMessage,
   ToolCallMessage,
   ToolResultMessage,
   ToolCall,
-  ToolResult
+  ToolResult,
+  PendingReview,
+  PendingApproval,
+  TestResults,
+  LLMStreamCallbacks,
+  SystemPrompt
 } from "@/hooks/useSandpackAgent";
+import { ProviderSettingsDialog } from "@/components/ProviderSettingsDialog";
+import { UsageSummary } from "@/components/UsageSummary";
+import { useLLMSettings } from "@/contexts/LLMSettingsContext";
+import { useGit } from "@/hooks/useGit";
+import { PROVIDERS, createCallLLM, createLLMRecorder } from "@/lib/providers";
+import { FILE_MUTATING_TOOLS, getToolCallRevert, snapshotFiles } from "@/lib/checkpoints";
+import type { ShellGit } from "@/lib/shell";
+import { createHttpSearchProvider, createLocalDocsProvider, fetchPackageReadme } from "@/lib/search";
+import { formatHunkHeader, type DiffHunk } from "@/lib/diff";
+import { getEditHunks } from "@/lib/toolResults";
+
+// Console helpers for capturing a live session as a replay fixture
+declare global {
+  interface Window {
+    startAgentRecording?: () => void;
+    stopAgentRecording?: () => void;
+  }
+}
+
+// The unsent draft is kept across remounts, e.g. when switching to the Preview tab
+const DRAFT_STORAGE_KEY = "sandpackAgentDraft";
+
+const REVIEW_MODE_STORAGE_KEY = "sandpackAgentReviewMode";
+
+const loadDraft = () => {
+  if (typeof window === "undefined") return "";
+  try {
+    return localStorage.getItem(DRAFT_STORAGE_KEY) || "";
+  } catch {
+    return "";
+  }
+};
 
 export interface SandpackAgentProps {
   messages: Message[];
   setMessages: React.Dispatch<React.SetStateAction<Message[]>>;
-  apiKey: string;
   onRequestApiKey: () => void;
   testResults?: any;
 }
@@ -38,71 +87,146 @@ export interface SandpackAgentProps {
 export function SandpackAgent({ 
   messages, 
   setMessages, 
-  apiKey, 
   onRequestApiKey,
   testResults 
 }: SandpackAgentProps) {
-  const [input, setInput] = useState("");
+  const [input, setInput] = useState(loadDraft);
+  // Position while browsing sent messages with the arrow keys, null when editing the draft
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const savedDraft = useRef("");
+  const [reviewMode, setReviewMode] = useState(
+    () => typeof window !== "undefined" && localStorage.getItem(REVIEW_MODE_STORAGE_KEY) === "true"
+  );
   const [collapsedTools, setCollapsedTools] = useState<Record<string, boolean>>(
     {}
   );
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const [isProviderDialogOpen, setIsProviderDialogOpen] = useState(false);
+  const { adapter, providerSettings, generationSettings, missingApiKey, embeddingProvider } = useLLMSettings();
+  const recorderRef = useRef<ReturnType<typeof createLLMRecorder> | null>(null);
+  const { getCommitLog, getCurrentBranch, getStatusMatrix, getWorkingTreeDiff } = useGit();
+  // Test runs requested by npm test: a hidden runner is mounted until it reports
+  const [testRunId, setTestRunId] = useState<number | null>(null);
+  const testRunWaiters = useRef<Array<(results: TestResults) => void>>([]);
+
+  const runTests = useCallback(
+    () =>
+      new Promise<TestResults>((resolve) => {
+        testRunWaiters.current.push(resolve);
+        setTestRunId(Date.now());
+      }),
+    []
+  );
+
+  const handleTestRunComplete = (results: TestResults) => {
+    const waiters = testRunWaiters.current;
+    testRunWaiters.current = [];
+    setTestRunId(null);
+    waiters.forEach((resolve) => resolve(results));
+  };
+
+  const git: ShellGit = {
+    currentBranch: getCurrentBranch,
+    statusMatrix: getStatusMatrix,
+    diff: getWorkingTreeDiff,
+    log: getCommitLog,
+  };
 
   // Define the callLLM function that will be passed to useSandpackAgent
   const callLLM = useCallback(
     async (
       messages: AnthropicMessage[],
-      systemPrompt: string,
-      tools: any[]
+      systemPrompt: SystemPrompt,
+      tools: any[],
+      stream?: LLMStreamCallbacks,
+      signal?: AbortSignal
     ) => {
-      if (!apiKey || apiKey === "") {
-        console.log("Anthropic API key is required");
+      if (missingApiKey) {
+        console.log(`${PROVIDERS[providerSettings.provider].label} API key is required`);
         onRequestApiKey();
-        throw new Error("Anthropic API key is required. Please enter your API key to continue.");
+        throw new Error(`${PROVIDERS[providerSettings.provider].label} API key is required. Please enter your API key to continue.`);
       }
 
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-api-key": apiKey,
-          "anthropic-version": "2023-06-01",
-          "anthropic-dangerous-direct-browser-access": "true",
-        },
-        body: JSON.stringify({
-          model: "claude-3-7-sonnet-20250219",
-          max_tokens: 4000,
-          messages: messages,
+      const response = await adapter.createMessage(
+        {
+          ...generationSettings.chat,
           system: systemPrompt,
-          tools: tools,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(
-          errorData.error?.message || "Failed to get response from Anthropic"
-        );
-      }
-
-      return await response.json();
+          messages,
+          tools,
+        },
+        stream,
+        signal
+      );
+      recorderRef.current?.record(messages, tools, response);
+      return response;
     },
-    [apiKey, onRequestApiKey]
+    [adapter, providerSettings.provider, generationSettings.chat, missingApiKey, onRequestApiKey]
   );
 
+  // Reapply reconciles failed edits with this model when one is configured
+  const applyLLM = useMemo(
+    () =>
+      generationSettings.apply && !missingApiKey
+        ? createCallLLM(adapter, generationSettings.apply)
+        : undefined,
+    [adapter, generationSettings.apply, missingApiKey]
+  );
+
+  // Search the configured endpoint, or the React docs, project markdown and dependency READMEs
+  const { sandpack } = useSandpack();
+  const filesRef = useRef(sandpack.files);
+  filesRef.current = sandpack.files;
+  const searchProvider = useMemo(
+    () =>
+      providerSettings.searchEndpoint
+        ? createHttpSearchProvider({ endpoint: providerSettings.searchEndpoint })
+        : createLocalDocsProvider({ getFiles: () => snapshotFiles(filesRef.current), fetchReadme: fetchPackageReadme }),
+    [providerSettings.searchEndpoint]
+  );
+
+  // An empty or invalid cap means no cap
+  const spendingCap = useMemo(() => {
+    const cap = parseFloat(providerSettings.spendingCap);
+    return Number.isFinite(cap) && cap > 0 ? cap : undefined;
+  }, [providerSettings.spendingCap]);
+
   // Get the agent hook with our custom callLLM function
   const {
     messages: agentMessages,
     sendMessage,
+    stop,
+    continueRun,
+    canContinue,
+    queuedMessages,
+    pendingReviews,
+    decideReview,
+    pendingApprovals,
+    decideApproval,
+    checkpoints,
+    unsavedCheckpoints,
+    revertToolCall,
+    revertTurn,
+    restoreCheckpoint,
+    redo,
+    canRedo,
     clearMessages: clearAgentMessages,
+    turnUsage,
+    sessionUsage,
     isLoading,
     updateTestResults,
   } = useSandpackAgent({
     callLLM: callLLM,
     systemPrompt: DEFAULT_SYSTEM_PROMPT,
     tools: DEFAULT_TOOLS,
+    reviewMode,
+    applyLLM,
+    git,
+    runTests,
+    searchProvider,
+    embeddingProvider,
+    spendingCap,
   });
 
   // Sync agent messages with the Chat component's messages
@@ -117,6 +241,35 @@ export function SandpackAgent({
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Expose session recording on the window; stopping downloads the replay fixture
+  useEffect(() => {
+    window.startAgentRecording = () => {
+      recorderRef.current = createLLMRecorder();
+      console.log("Recording agent session. Call stopAgentRecording() to download the fixture.");
+    };
+    window.stopAgentRecording = () => {
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      if (!recorder) {
+        console.log("No agent recording in progress");
+        return;
+      }
+
+      const blob = new Blob([JSON.stringify(recorder.fixture(), null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `agent-session-${Date.now()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    };
+
+    return () => {
+      delete window.startAgentRecording;
+      delete window.stopAgentRecording;
+    };
+  }, []);
+
   // Focus input on mount
   useEffect(() => {
     if (inputRef.current) {
@@ -124,6 +277,37 @@ export function SandpackAgent({
     }
   }, []);
 
+  // Persist the draft so it survives tab switches and reloads
+  useEffect(() => {
+    try {
+      if (input) {
+        localStorage.setItem(DRAFT_STORAGE_KEY, input);
+      } else {
+        localStorage.removeItem(DRAFT_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error("Error saving draft to localStorage:", error);
+    }
+  }, [input]);
+
+  const handleReviewModeChange = (enabled: boolean) => {
+    setReviewMode(enabled);
+    try {
+      localStorage.setItem(REVIEW_MODE_STORAGE_KEY, String(enabled));
+    } catch (error) {
+      console.error("Error saving review mode to localStorage:", error);
+    }
+  };
+
+  // Grow the textarea with its content, up to the max height set in CSS
+  useEffect(() => {
+    const textarea = inputRef.current;
+    if (textarea) {
+      textarea.style.height = "auto";
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+  }, [input]);
+
   // Update test results when they change from props
   useEffect(() => {
     if (testResults && updateTestResults) {
@@ -133,21 +317,60 @@ export function SandpackAgent({
 
   const handleSendMessage = async () => {
     if (!input.trim()) return;
-    if (!apiKey || apiKey === "") {
-      console.log("Anthropic API key is required");
+    if (missingApiKey) {
+      console.log(`${PROVIDERS[providerSettings.provider].label} API key is required`);
       onRequestApiKey();
       return;
     }
 
+    const message = input;
     setInput("");
+    setHistoryIndex(null);
 
     try {
-      await sendMessage(input);
+      // Sent while a turn is running, the message is queued by the hook
+      await sendMessage(message);
     } catch (error) {
       console.error("Error sending message:", error);
     }
   };
 
+  // Previously sent messages, oldest first
+  const sentHistory = messages
+    .filter((m): m is UserTextMessage => m.type === "user_message")
+    .map((m) => m.content);
+
+  const recallHistory = (index: number | null) => {
+    setHistoryIndex(index);
+    setInput(index === null ? savedDraft.current : sentHistory[index]);
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSendMessage();
+      return;
+    }
+
+    // Arrow keys only browse history from the first or last line, so multiline edits still work
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    if (selectionStart !== selectionEnd || sentHistory.length === 0) return;
+
+    if (e.key === "ArrowUp" && !value.slice(0, selectionStart).includes("\n")) {
+      if (historyIndex === 0) return;
+      e.preventDefault();
+      if (historyIndex === null) {
+        savedDraft.current = input;
+        recallHistory(sentHistory.length - 1);
+      } else {
+        recallHistory(historyIndex - 1);
+      }
+    } else if (e.key === "ArrowDown" && historyIndex !== null && !value.slice(selectionEnd).includes("\n")) {
+      e.preventDefault();
+      recallHistory(historyIndex < sentHistory.length - 1 ? historyIndex + 1 : null);
+    }
+  };
+
   const toggleToolCollapse = (messageId: string) => {
     setCollapsedTools((prev) => ({
       ...prev,
@@ -220,8 +443,133 @@ export function SandpackAgent({
     return groupedMessages;
   }, [messages]);
 
+  const renderDiffLines = (hunk: DiffHunk) =>
+    hunk.lines.map((line, i) => (
+      <div
+        key={i}
+        className={
+          line.type === "add"
+            ? "bg-green-500/10 text-green-600 dark:text-green-400"
+            : line.type === "remove"
+              ? "bg-red-500/10 text-red-600 dark:text-red-400"
+              : "text-muted-foreground"
+        }
+      >
+        {line.type === "add" ? "+" : line.type === "remove" ? "-" : " "} {line.text}
+      </div>
+    ));
+
+  // Proposed change with Accept / Reject for the whole file and for each hunk
+  const renderReview = (review: PendingReview) => {
+    const isDeletion = review.toolName === "delete_file";
+
+    return (
+      <div className="bg-muted/50">
+        <div className="flex items-center justify-between px-3 py-2 border-b">
+          <span className="text-xs font-medium">
+            {isDeletion
+              ? "Review deletion"
+              : `Review ${review.hunks.length} ${review.hunks.length === 1 ? "change" : "changes"}`}
+          </span>
+          <div className="flex gap-1">
+            <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => decideReview(review.toolCallId, "accepted")}>
+              <CheckIcon className="h-3 w-3 mr-1" />
+              Accept all
+            </Button>
+            <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => decideReview(review.toolCallId, "rejected")}>
+              <XIcon className="h-3 w-3 mr-1" />
+              Reject all
+            </Button>
+          </div>
+        </div>
+
+        {isDeletion ? (
+          <div className="p-3 text-xs text-red-600 dark:text-red-400">
+            This file will be deleted ({(review.oldContent ?? "").split("\n").length} lines).
+          </div>
+        ) : (
+          review.hunks.map((hunk, index) => {
+            const decision = review.decisions[index];
+            return (
+              <div key={index} className={`border-b last:border-b-0 ${decision ? "opacity-60" : ""}`}>
+                <div className="flex items-center justify-between px-3 py-1 bg-muted text-xs text-muted-foreground">
+                  <span className="font-mono">{formatHunkHeader(hunk)}</span>
+                  {decision ? (
+                    <span>{decision === "accepted" ? "Accepted" : "Rejected"}</span>
+                  ) : (
+                    <div className="flex gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => decideReview(review.toolCallId, "accepted", index)}
+                        title="Accept this change"
+                      >
+                        <CheckIcon className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => decideReview(review.toolCallId, "rejected", index)}
+                        title="Reject this change"
+                      >
+                        <XIcon className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <div className="px-3 py-1 text-xs font-mono overflow-x-auto">
+                  {renderDiffLines(hunk)}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    );
+  };
+
+  // The command line, Run / Skip while it awaits approval, and its output once it has run
+  const renderCommand = (args: Record<string, any>, toolResult?: ToolResult, approval?: PendingApproval) => (
+    <div className="bg-muted/50">
+      <div className="px-3 py-2 text-xs font-mono whitespace-pre-wrap break-words">
+        <span className="text-muted-foreground select-none">$ </span>
+        {args.command}
+      </div>
+      {approval && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-t">
+          <span className="text-xs text-muted-foreground">
+            {approval.explanation || "The agent wants to run this command."}
+          </span>
+          <div className="flex gap-1 shrink-0">
+            <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => decideApproval(approval.toolCallId, true)}>
+              <PlayIcon className="h-3 w-3 mr-1" />
+              Run
+            </Button>
+            <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => decideApproval(approval.toolCallId, false)}>
+              <XIcon className="h-3 w-3 mr-1" />
+              Skip
+            </Button>
+          </div>
+        </div>
+      )}
+      {toolResult?.background === "running" && (
+        <div className="px-3 py-2 border-t text-xs text-muted-foreground animate-pulse">
+          Running in the background...
+        </div>
+      )}
+      {(toolResult?.output || toolResult?.stderr) && (
+        <pre className="px-3 py-2 border-t text-xs font-mono whitespace-pre-wrap break-words max-h-64 overflow-y-auto">
+          {toolResult.output}
+          {toolResult.stderr && <span className="text-red-600 dark:text-red-400">{toolResult.stderr}</span>}
+        </pre>
+      )}
+    </div>
+  );
+
   // Render tool call and result as a single card
-  const renderToolCard = (toolCall: ToolCall, toolResult?: ToolResult) => {
+  const renderToolCard = (toolCall: ToolCall, toolResult?: ToolResult, streamingInput?: string) => {
     const isCollapsed = collapsedTools[toolCall.id] || false;
     const { name, arguments: args } = toolCall;
 
@@ -235,42 +583,27 @@ export function SandpackAgent({
 
     // Get file path for display
     const getFilePath = () => {
-      if (
-        name === "edit_file" ||
-        name === "create_file" ||
-        name === "delete_file"
-      ) {
-        return args.file_path;
+      if (FILE_MUTATING_TOOLS.has(name)) {
+        return args.file_path ?? args.target_file;
       }
       return null;
     };
 
-    // Get content for code block
-    const getCodeContent = () => {
-      if (name === "edit_file" || name === "create_file") {
-        return args.content || "";
-      }
-      return JSON.stringify(args, null, 2);
-    };
-
-    // Get old content for diff view
-    const getOldContent = () => {
-      if (name === "edit_file" && toolResult?.oldContent) {
-        return toolResult.oldContent;
-      }
-      return null;
-    };
+    // Edits and overwriting creates carry the hunks of their change, which drive the diff view
+    const editHunks = toolResult ? getEditHunks(toolResult) : undefined;
+    // New files, and calls still waiting for their result, show the content they write
+    const proposedContent = typeof args.content === "string" ? args.content : JSON.stringify(args, null, 2);
 
     const filePath = getFilePath();
-    const codeContent = getCodeContent();
-    const oldContent = getOldContent();
+    const review = toolResult ? undefined : pendingReviews.find((r) => r.toolCallId === toolCall.id);
+    const approval = toolResult ? undefined : pendingApprovals.find((a) => a.toolCallId === toolCall.id);
 
     return (
       <Card className="mt-2 overflow-hidden border shadow-sm">
         <CardHeader className="py-2 px-3">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
-              <Wrench className="h-4 w-4 text-primary" />
+              <Wrench className={`h-4 w-4 text-primary ${streamingInput !== undefined ? "animate-pulse" : ""}`} />
               <CardTitle className="text-sm font-medium">
                 {formatToolName(name)}{" "}
                 {filePath && (
@@ -280,73 +613,69 @@ export function SandpackAgent({
                 )}
               </CardTitle>
             </div>
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-7 w-7"
-              onClick={() => toggleToolCollapse(toolCall.id)}
-            >
+            <div className="flex items-center gap-1">
+              {FILE_MUTATING_TOOLS.has(name) && toolResult && (
+                toolResult.reverted ? (
+                  <span className="text-xs text-muted-foreground">Reverted</span>
+                ) : getToolCallRevert(toolCall, toolResult) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => revertToolCall(toolCall.id)}
+                    disabled={isLoading}
+                    title="Revert this change"
+                  >
+                    <Undo2Icon className="h-3.5 w-3.5" />
+                  </Button>
+                )
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => toggleToolCollapse(toolCall.id)}
+              >
               {isCollapsed ? (
                 <ChevronDown className="h-3.5 w-3.5" />
               ) : (
                 <ChevronUp className="h-3.5 w-3.5" />
               )}
-            </Button>
+              </Button>
+            </div>
           </div>
         </CardHeader>
 
         {!isCollapsed && (
           <CardContent className="p-0">
-            {name === "edit_file" || name === "create_file" ? (
+            {review ? (
+              renderReview(review)
+            ) : streamingInput !== undefined ? (
+              <div className="p-3 bg-muted/50">
+                <pre className="text-sm font-mono whitespace-pre-wrap break-words">
+                  {streamingInput}
+                </pre>
+              </div>
+            ) : name === "run_terminal_cmd" ? (
+              renderCommand(args, toolResult, approval)
+            ) : FILE_MUTATING_TOOLS.has(name) && name !== "delete_file" ? (
               <div className="overflow-x-auto bg-muted/50 p-3">
-                {name === "edit_file" && oldContent && (
+                {editHunks ? (
                   <div className="mt-2 border-t pt-2">
                     <div className="text-xs font-medium mb-1">Changes:</div>
                     <div className="text-xs font-mono">
-                      {codeContent
-                        .split("\n")
-                        .map((line: string, i: number) => {
-                          const oldLines = oldContent.split("\n");
-                          const oldLine = oldLines[i] || "";
-                          if (line === oldLine) {
-                            return (
-                              <div key={i} className="text-muted-foreground">
-                                {line}
-                              </div>
-                            );
-                          } else if (!oldLine) {
-                            return (
-                              <div
-                                key={i}
-                                className="bg-green-500/10 text-green-600 dark:text-green-400"
-                              >
-                                + {line}
-                              </div>
-                            );
-                          } else if (!line) {
-                            return (
-                              <div
-                                key={i}
-                                className="bg-red-500/10 text-red-600 dark:text-red-400"
-                              >
-                                - {oldLine}
-                              </div>
-                            );
-                          } else {
-                            return (
-                              <div key={i}>
-                                <div className="bg-red-500/10 text-red-600 dark:text-red-400">
-                                  - {oldLine}
-                                </div>
-                                <div className="bg-green-500/10 text-green-600 dark:text-green-400">
-                                  + {line}
-                                </div>
-                              </div>
-                            );
-                          }
-                        })}
+                      {editHunks.map((hunk, i) => (
+                        <div key={i} className="mb-2 last:mb-0">
+                          <div className="text-muted-foreground">{formatHunkHeader(hunk)}</div>
+                          {renderDiffLines(hunk)}
+                        </div>
+                      ))}
                     </div>
                   </div>
+                ) : (
+                  <pre className="text-sm font-mono whitespace-pre-wrap break-words">
+                    {proposedContent}
+                  </pre>
                 )}
               </div>
             ) : (
@@ -379,18 +708,70 @@ export function SandpackAgent({
     );
   };
 
+  const checkpointMessageIds = new Set(checkpoints.map((checkpoint) => checkpoint.messageId));
+
+  // Only the most recent limit or failed request notice can be resumed
+  const latestLimitNoticeId = [...messages]
+    .reverse()
+    .find((m) => m.type === 'assistant_message' && m.limit)?.id;
+
   // Render message content based on message type
   const renderMessageContent = (message: Message | { type: 'tool_pair', call: ToolCallMessage, result: ToolResultMessage }) => {
     if (message.type === 'user_message' || message.type === 'assistant_message') {
       return (
         <div className="text-sm whitespace-pre-wrap break-words overflow-hidden message-content">
           {message.content}
+          {message.type === 'assistant_message' && message.isStreaming && (
+            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" />
+          )}
+          {message.type === 'user_message' && checkpointMessageIds.has(message.id) && (
+            <div className="mt-2 flex justify-end gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-primary-foreground/80 hover:text-primary-foreground hover:bg-primary-foreground/10"
+                onClick={() => revertTurn(message.id)}
+                disabled={isLoading}
+                title="Undo the file changes made in reply to this message"
+              >
+                <Undo2Icon className="h-3 w-3 mr-1" />
+                Undo turn
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-primary-foreground/80 hover:text-primary-foreground hover:bg-primary-foreground/10"
+                onClick={() => restoreCheckpoint(message.id)}
+                disabled={isLoading}
+                title="Restore every file to how it was before this message"
+              >
+                <HistoryIcon className="h-3 w-3 mr-1" />
+                Restore
+              </Button>
+            </div>
+          )}
+          {message.type === 'assistant_message' && message.limit && canContinue && message.id === latestLimitNoticeId && (
+            <div className="mt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => continueRun(DEFAULT_CONTINUE_STEPS)}
+                disabled={isLoading}
+              >
+                {message.limit.reason === 'request_failed' ? 'Retry' : `Continue for ${DEFAULT_CONTINUE_STEPS} more steps`}
+              </Button>
+            </div>
+          )}
         </div>
       );
     } else if (message.type === 'tool_pair') {
       return renderToolCard(message.call.toolCall, message.result.result);
     } else if (message.type === 'tool_call') {
-      return renderToolCard(message.toolCall);
+      return renderToolCard(
+        message.toolCall,
+        undefined,
+        message.isStreaming ? message.partialInput || "" : undefined
+      );
     } else if (message.type === 'tool_result') {
       // This should usually not be rendered separately, but as a fallback
       return (
@@ -427,12 +808,55 @@ export function SandpackAgent({
 
   const groupedMessages = getGroupedMessages();
 
+  // Streamed output replaces the typing indicator while it is arriving
+  const lastMessage = messages[messages.length - 1];
+  const isStreaming =
+    !!lastMessage &&
+    (lastMessage.type === 'assistant_message' || lastMessage.type === 'tool_call') &&
+    !!lastMessage.isStreaming;
+
   return (
     <>
       <div className="h-full flex flex-col w-full">
         <div className="flex items-center justify-between px-4 py-2 border-b">
           <h3 className="font-semibold">Chat Assistant</h3>
           <div className="flex items-center gap-2">
+            <Toggle
+              size="sm"
+              pressed={reviewMode}
+              onPressedChange={handleReviewModeChange}
+              title="Review agent file changes before they are applied"
+            >
+              <FileDiffIcon className="h-4 w-4" />
+              Review
+            </Toggle>
+            {canRedo && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={redo}
+                disabled={isLoading}
+                title="Reapply the last undone changes"
+              >
+                <Redo2Icon className="h-4 w-4 mr-1" />
+                Redo
+              </Button>
+            )}
+            <UsageSummary
+              turnUsage={turnUsage}
+              sessionUsage={sessionUsage}
+              messages={messages}
+              spendingCap={spendingCap}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsProviderDialogOpen(true)}
+              title="Choose the model provider and generation settings"
+            >
+              <Settings2Icon className="h-4 w-4 mr-1" />
+              {providerSettings.model}
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -449,7 +873,21 @@ export function SandpackAgent({
           ref={scrollAreaRef}
         >
           <div className="flex flex-col gap-4 max-w-full">
-            {groupedMessages.map((message, index) => (
+            {groupedMessages.map((message, index) => message.type === 'assistant_message' && message.compaction ? (
+              <div key={message.id} className="flex flex-col items-center gap-1 text-xs text-muted-foreground">
+                <div className="flex w-full items-center gap-2">
+                  <div className="h-px flex-1 bg-border" />
+                  <span title={message.content}>Conversation compacted</span>
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+                {message.compaction.summary && (
+                  <details className="max-w-[80%]">
+                    <summary className="cursor-pointer text-center">Show summary</summary>
+                    <div className="mt-1 whitespace-pre-wrap rounded-md bg-muted/50 p-2">{message.compaction.summary}</div>
+                  </details>
+                )}
+              </div>
+            ) : (
               <div
                 key={message.type === 'tool_pair' ? `pair-${message.call.id}-${message.result.id}` : message.id}
                 className={`flex gap-3 ${
@@ -488,7 +926,7 @@ export function SandpackAgent({
               </div>
             ))}
 
-            {isLoading && (
+            {isLoading && !isStreaming && (
               <div className="flex gap-3 justify-start">
                 <Avatar className="h-8 w-8 flex-shrink-0">
                   <AvatarFallback>
@@ -515,27 +953,84 @@ export function SandpackAgent({
         </div>
 
         <div className="p-4 border-t mt-auto">
+          {unsavedCheckpoints > 0 && (
+            <div className="mb-2 text-xs text-destructive">
+              {unsavedCheckpoints === checkpoints.length
+                ? "Checkpoints could not be saved: browser storage is full. Undo and restore will not survive a reload."
+                : `The ${unsavedCheckpoints} oldest checkpoints could not be saved: browser storage is full. They will be gone after a reload.`}
+            </div>
+          )}
+          {queuedMessages.length > 0 && (
+            <div className="mb-2 space-y-1">
+              <div className="text-xs font-medium text-muted-foreground">
+                {queuedMessages.length} queued — sent when the current turn finishes
+              </div>
+              {queuedMessages.map((queued, index) => (
+                <div
+                  key={index}
+                  className="flex items-center gap-2 rounded-md border border-dashed px-2 py-1 text-xs text-muted-foreground"
+                >
+                  <ClockIcon className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">{queued}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <form
-            className="flex gap-2"
+            className="flex items-end gap-2"
             onSubmit={(e) => {
               e.preventDefault();
               handleSendMessage();
             }}
           >
-            <Input
+            <Textarea
               ref={inputRef}
               value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="Type a message..."
-              className="flex-1"
-              disabled={isLoading}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setHistoryIndex(null);
+              }}
+              onKeyDown={handleInputKeyDown}
+              placeholder={isLoading ? "Queue a message..." : "Type a message... (Shift+Enter for a new line)"}
+              className="flex-1 min-h-10 max-h-40 resize-none"
+              rows={1}
             />
-            <Button type="submit" size="icon" disabled={isLoading}>
+            {isLoading && (
+              <Button
+                type="button"
+                size="icon"
+                variant="destructive"
+                onClick={stop}
+                title="Stop the agent"
+              >
+                <SquareIcon className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              type="submit"
+              size="icon"
+              disabled={!input.trim()}
+              title={isLoading ? "Queue message" : "Send message"}
+            >
               <SendIcon className="h-4 w-4" />
             </Button>
           </form>
         </div>
       </div>
+      <ProviderSettingsDialog
+        open={isProviderDialogOpen}
+        onOpenChange={setIsProviderDialogOpen}
+      />
+      {testRunId !== null && (
+        <div className="hidden">
+          <SandpackTests
+            key={testRunId}
+            watchMode={false}
+            hideTestsAndSupressLogs
+            onComplete={(results) => handleTestRunComplete(results as TestResults)}
+          />
+        </div>
+      )}
     </>
   );
 }
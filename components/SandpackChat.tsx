@@ -10,6 +10,7 @@ import * as git from 'isomorphic-git';
 import http from 'isomorphic-git/http/web';
 import { useAuth } from "@/contexts/AuthContext";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { LLMSettingsProvider } from "@/contexts/LLMSettingsContext";
 
 // Add window interface declaration for TypeScript
 declare global {
@@ -446,11 +447,13 @@ export function SandpackChat() {
   );
 }
 
-// Wrap the exported component with AuthProvider
+// Wrap the exported component with AuthProvider and the LLM provider settings
 export default function SandpackChatWithAuth() {
   return (
     <AuthProvider>
-      <SandpackChat />
+      <LLMSettingsProvider>
+        <SandpackChat />
+      </LLMSettingsProvider>
     </AuthProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+"use client";
+import React, { useState } from "react";
+import { CoinsIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { Message } from "@/hooks/useSandpackAgent";
+import {
+  cacheHitRate,
+  formatCost,
+  formatTokenCount,
+  totalInputTokens,
+  type TurnUsage,
+  type UsageTotals,
+} from "@/lib/usage";
+
+interface UsageSummaryProps {
+  turnUsage: TurnUsage[];
+  sessionUsage: UsageTotals;
+  // The messages the turns started with, for labelling them
+  messages: Message[];
+  spendingCap?: number;
+}
+
+// A cost with a marker when some calls could not be priced
+const costLabel = (usage: UsageTotals) =>
+  `${formatCost(usage.cost)}${usage.unpricedCalls > 0 ? "+" : ""}`;
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+/**
+ * The session's token usage and cost for the chat header, opening a per-turn breakdown.
+ */
+export function UsageSummary({ turnUsage, sessionUsage, messages, spendingCap }: UsageSummaryProps) {
+  const [open, setOpen] = useState(false);
+  const overCap = spendingCap !== undefined && sessionUsage.cost >= spendingCap;
+
+  const turnLabel = (messageId: string) => {
+    const message = messages.find((m) => m.id === messageId);
+    const text = message?.type === "user_message" ? message.content : "";
+    return text.length > 60 ? `${text.slice(0, 60)}...` : text || "(message cleared)";
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className={overCap ? "text-destructive" : undefined}
+        title={`Token usage and cost for this session; ${formatPercent(cacheHitRate(sessionUsage))} of input tokens read from the prompt cache`}
+      >
+        <CoinsIcon className="h-4 w-4 mr-1" />
+        {costLabel(sessionUsage)}
+        {spendingCap !== undefined && (
+          <span className="text-muted-foreground ml-1">/ {formatCost(spendingCap)}</span>
+        )}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Token Usage</DialogTitle>
+            <DialogDescription>
+              {sessionUsage.calls} model calls this session, {formatTokenCount(totalInputTokens(sessionUsage))} tokens in and{" "}
+              {formatTokenCount(sessionUsage.outputTokens)} out, with {formatPercent(cacheHitRate(sessionUsage))} of input read from the
+              prompt cache.
+              {sessionUsage.unpricedCalls > 0 &&
+                ` ${sessionUsage.unpricedCalls} calls used a model without a price and are not included in the cost.`}
+              {spendingCap !== undefined &&
+                ` Requests stop once the session reaches the spending cap of ${formatCost(spendingCap)}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="text-muted-foreground">
+                <tr className="text-left">
+                  <th className="py-1 pr-2 font-medium">Turn</th>
+                  <th className="py-1 pr-2 font-medium text-right">Calls</th>
+                  <th className="py-1 pr-2 font-medium text-right">Input</th>
+                  <th className="py-1 pr-2 font-medium text-right">Cache read</th>
+                  <th className="py-1 pr-2 font-medium text-right">Cache write</th>
+                  <th className="py-1 pr-2 font-medium text-right">Cache hits</th>
+                  <th className="py-1 pr-2 font-medium text-right">Output</th>
+                  <th className="py-1 font-medium text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...turnUsage, { ...sessionUsage, messageId: "" }].map((usage, index) => {
+                  const isTotal = index === turnUsage.length;
+                  return (
+                    <tr key={usage.messageId || "total"} className={isTotal ? "border-t font-medium" : undefined}>
+                      <td className="py-1 pr-2 truncate max-w-[14rem]">{isTotal ? "Session" : turnLabel(usage.messageId)}</td>
+                      <td className="py-1 pr-2 text-right">{usage.calls}</td>
+                      <td className="py-1 pr-2 text-right">{formatTokenCount(usage.inputTokens)}</td>
+                      <td className="py-1 pr-2 text-right">{formatTokenCount(usage.cacheReadTokens)}</td>
+                      <td className="py-1 pr-2 text-right">{formatTokenCount(usage.cacheWriteTokens)}</td>
+                      <td className="py-1 pr-2 text-right">{formatPercent(cacheHitRate(usage))}</td>
+                      <td className="py-1 pr-2 text-right">{formatTokenCount(usage.outputTokens)}</td>
+                      <td className="py-1 text-right">{costLabel(usage)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
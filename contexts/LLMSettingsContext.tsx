@@ -0,0 +1,217 @@
+"use client";
+import React, { createContext, useState, useContext, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSecureLocalStorage } from '@/hooks/useSecureLocalStorage';
+import type { EmbeddingProvider } from '@/lib/codeIndex';
+import {
+  PROVIDERS,
+  createEmbeddingProvider,
+  createProviderAdapter,
+  withRetry,
+  type GenerationSettings,
+  type ProviderAdapter,
+  type ProviderId,
+} from '@/lib/providers';
+
+const PROVIDER_SETTINGS_STORAGE_KEY = 'llmProviderSettings';
+
+// Response limits for each use of the model when no max tokens is set
+export const DEFAULT_MAX_TOKENS = {
+  chat: 4000,
+  commit: 1000,
+  apply: 8000,
+};
+
+// The smallest thinking budget Anthropic accepts
+export const MIN_THINKING_BUDGET = 1024;
+
+export interface ProviderSettings {
+  /** Which backend the agent and commit message generation talk to */
+  provider: ProviderId;
+  /** Custom endpoint, empty to use the provider's default */
+  baseUrl: string;
+  /** Model name passed to the provider */
+  model: string;
+  /** Model that writes commit messages, empty to use the chat model */
+  commitModel: string;
+  /** Model that reconciles failed edits for reapply, empty to merge without a model */
+  applyModel: string;
+  /** Longest chat response in tokens, thinking included; empty for the default */
+  maxTokens: string;
+  /** Sampling temperature for chat and commit messages, empty for the provider's default */
+  temperature: string;
+  /** Tokens the chat model may think for before answering (Anthropic only), empty to turn thinking off */
+  thinkingBudget: string;
+  /** Search service for web_search, empty to search the local documentation index */
+  searchEndpoint: string;
+  /** Embedding model codebase_search ranks by meaning with, empty to rank by keywords only */
+  embeddingModel: string;
+  /** Session cost in US dollars at which the agent stops sending requests, empty for no cap */
+  spendingCap: string;
+}
+
+const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'anthropic',
+  baseUrl: '',
+  model: PROVIDERS.anthropic.defaultModel,
+  commitModel: '',
+  applyModel: '',
+  maxTokens: '',
+  temperature: '',
+  thinkingBudget: '',
+  searchEndpoint: '',
+  embeddingModel: '',
+  spendingCap: '',
+};
+
+interface LLMSettingsContextType {
+  /** The selected provider, endpoint and model */
+  providerSettings: ProviderSettings;
+  /** Function to change and persist provider settings */
+  updateProviderSettings: (settings: Partial<ProviderSettings>) => void;
+  /** Adapter for the selected provider, configured with its API key */
+  adapter: ProviderAdapter;
+  /** How the chat and commit messages are generated, and reapply when it has a model */
+  generationSettings: {
+    chat: GenerationSettings;
+    commit: GenerationSettings;
+    apply?: GenerationSettings;
+  };
+  /** True when the selected provider needs an API key that has not been entered */
+  missingApiKey: boolean;
+  /** Embeddings for codebase_search, when an embedding model is set and the provider has them */
+  embeddingProvider?: EmbeddingProvider;
+  /** The user's key for OpenAI-compatible servers, if any */
+  openaiApiKey: string | null;
+  /** Function to save or clear the OpenAI-compatible API key */
+  setOpenaiApiKey: (value: string | null) => Promise<void>;
+}
+
+const LLMSettingsContext = createContext<LLMSettingsContextType | undefined>(undefined);
+
+// Each user keeps their own settings; before logging in, the shared ones apply
+const settingsStorageKey = (userIdentifier: string | null) =>
+  userIdentifier ? `${PROVIDER_SETTINGS_STORAGE_KEY}:${userIdentifier}` : PROVIDER_SETTINGS_STORAGE_KEY;
+
+const loadProviderSettings = (userIdentifier: string | null): ProviderSettings => {
+  if (typeof window === 'undefined' || !window.localStorage) {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+  try {
+    // A user without settings of their own starts from the shared ones
+    const saved = localStorage.getItem(settingsStorageKey(userIdentifier)) ?? localStorage.getItem(PROVIDER_SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch (error) {
+    console.error('[LLMSettings] Failed to load provider settings:', error);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+// A numeric setting, or undefined when it is empty or not a number
+const parseNumberSetting = (value: string): number | undefined => {
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Provides the selected LLM provider and a ready-to-use adapter for it.
+ * Must be rendered inside an AuthProvider, which supplies the Anthropic key.
+ */
+export const LLMSettingsProvider = ({ children }: { children: ReactNode }) => {
+  const { anthropicApiKey, userIdentifier } = useAuth();
+  const [openaiApiKey, setOpenaiApiKey] = useSecureLocalStorage('openai_api_key');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => loadProviderSettings(userIdentifier));
+
+  // Switch to the settings of whoever logs in
+  useEffect(() => {
+    setProviderSettings(loadProviderSettings(userIdentifier));
+  }, [userIdentifier]);
+
+  const updateProviderSettings = useCallback((settings: Partial<ProviderSettings>) => {
+    setProviderSettings((prev) => {
+      const next = { ...prev, ...settings };
+      try {
+        localStorage.setItem(settingsStorageKey(userIdentifier), JSON.stringify(next));
+      } catch (error) {
+        console.error('[LLMSettings] Failed to save provider settings:', error);
+      }
+      return next;
+    });
+  }, [userIdentifier]);
+
+  const apiKey = providerSettings.provider === 'anthropic'
+    ? anthropicApiKey
+    : providerSettings.provider === 'openai'
+      ? openaiApiKey
+      : null;
+
+  // Rate limits and overloaded errors are retried here, for the agent and commit messages alike
+  const adapter = useMemo(
+    () => withRetry(createProviderAdapter({
+      provider: providerSettings.provider,
+      baseUrl: providerSettings.baseUrl || undefined,
+      apiKey: apiKey || undefined,
+    })),
+    [providerSettings.provider, providerSettings.baseUrl, apiKey]
+  );
+
+  const embeddingProvider = useMemo(
+    () => providerSettings.embeddingModel
+      ? createEmbeddingProvider({
+        provider: providerSettings.provider,
+        baseUrl: providerSettings.baseUrl || undefined,
+        apiKey: apiKey || undefined,
+      }, providerSettings.embeddingModel)
+      : undefined,
+    [providerSettings.provider, providerSettings.baseUrl, providerSettings.embeddingModel, apiKey]
+  );
+
+  const generationSettings = useMemo(() => {
+    const { model, commitModel, applyModel } = providerSettings;
+    const maxTokens = parseNumberSetting(providerSettings.maxTokens) ?? DEFAULT_MAX_TOKENS.chat;
+    const temperature = parseNumberSetting(providerSettings.temperature);
+    // A budget the API would reject turns thinking off instead
+    const thinkingBudget = parseNumberSetting(providerSettings.thinkingBudget);
+    return {
+      chat: {
+        model,
+        maxTokens,
+        temperature,
+        thinkingBudget: thinkingBudget !== undefined && thinkingBudget >= MIN_THINKING_BUDGET && thinkingBudget < maxTokens
+          ? thinkingBudget
+          : undefined,
+      },
+      commit: { model: commitModel || model, maxTokens: DEFAULT_MAX_TOKENS.commit, temperature },
+      apply: applyModel ? { model: applyModel, maxTokens: DEFAULT_MAX_TOKENS.apply } : undefined,
+    };
+  }, [providerSettings]);
+
+  const contextValue: LLMSettingsContextType = {
+    providerSettings,
+    updateProviderSettings,
+    adapter,
+    generationSettings,
+    missingApiKey: PROVIDERS[providerSettings.provider].requiresApiKey && !apiKey,
+    embeddingProvider,
+    openaiApiKey,
+    setOpenaiApiKey,
+  };
+
+  return (
+    <LLMSettingsContext.Provider value={contextValue}>
+      {children}
+    </LLMSettingsContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the LLM provider settings.
+ * Throws an error if used outside of an LLMSettingsProvider.
+ */
+export const useLLMSettings = (): LLMSettingsContextType => {
+  const context = useContext(LLMSettingsContext);
+  if (context === undefined) {
+    throw new Error('useLLMSettings must be used within an LLMSettingsProvider');
+  }
+  return context;
+};
@@ -3,7 +3,9 @@
 import { useState, useEffect } from 'react';
 import * as git from 'isomorphic-git';
 import http from 'isomorphic-git/http/web';
-import { useAuth } from '@/contexts/AuthContext';
+import { useLLMSettings } from '@/contexts/LLMSettingsContext';
+import { getResponseText } from '@/lib/providers';
+import { formatUnifiedDiff } from '@/lib/diff';
 
 // Add the window interface declaration to make TypeScript happy
 declare global {
@@ -35,7 +37,7 @@ interface CommitMessageResult {
 export function useGit({ repoPath = '/repo' }: UseGitOptions = {}) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { anthropicApiKey } = useAuth();
+  const { adapter, generationSettings } = useLLMSettings();
   const getFileSystem = () => {
     // @ts-ignore
     const fs = window.gitFs;
@@ -75,6 +77,23 @@ export function useGit({ repoPath = '/repo' }: UseGitOptions = {}) {
         if (!path) continue;
         
         try {
+          // Normalize path
+          const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+          const fullPath = `${repoPath}${normalizedPath}`;
+
+          // A changed path with no content was deleted, so remove it from the working copy
+          if (!(path in sandpackFiles)) {
+            try {
+              await fs.promises.unlink(fullPath);
+              console.log(`Removed deleted file: ${fullPath}`);
+            } catch (err) {
+              // The file may never have been written to the working copy
+              console.debug(`Note: Removing ${fullPath} resulted in: ${err}`);
+            }
+            syncedFilesCount++;
+            continue;
+          }
+
           let content = sandpackFiles[path];
           
           // Handle case where content is an object with code property (from Sandpack format)
@@ -83,15 +102,11 @@ export function useGit({ repoPath = '/repo' }: UseGitOptions = {}) {
           }
           
           // Skip non-string content or undefined
-          if (!content || typeof content !== 'string') {
+          if (typeof content !== 'string') {
             console.warn(`Skipping file with invalid content: ${path} (type: ${typeof content})`);
             continue;
           }
           
-          // Normalize path
-          const normalizedPath = path.startsWith('/') ? path : `/${path}`;
-          const fullPath = `${repoPath}${normalizedPath}`;
-          
           // Skip special files and directories
           if (
             normalizedPath.includes('node_modules') || 
@@ -349,36 +364,21 @@ export function useGit({ repoPath = '/repo' }: UseGitOptions = {}) {
       The description should explain what changes were made and why they were necessary, but keep it concise.
       Respond with JSON with 'title' and 'description' properties.`;
       
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-api-key": anthropicApiKey || "",
-          "anthropic-version": "2023-06-01",
-          "anthropic-dangerous-direct-browser-access": "true",
-        },
-        body: JSON.stringify({
-          model: "claude-3-7-sonnet-20250219",
-          max_tokens: 1000,
-          messages: [{
-            role: "user",
-            content: `Here is the diff output:\n\n${diff}\n\nGenerate a conventional commit message title and description based on this diff.`
-          }],
-          system: systemPrompt,
-        }),
+      const response = await adapter.createMessage({
+        ...generationSettings.commit,
+        messages: [{
+          role: "user",
+          content: `Here is the diff output:\n\n${diff}\n\nGenerate a conventional commit message title and description based on this diff.`
+        }],
+        system: systemPrompt,
       });
       
-      if (!response.ok) {
-        throw new Error(`Error generating commit message: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
       let result = { title: "feat: update code", description: "" };
       
       try {
         // Try to parse the content as JSON
-        if (data.content && data.content[0] && data.content[0].text) {
-          const text = data.content[0].text;
+        const text = getResponseText(response);
+        if (text) {
           // Check if the text appears to be JSON
           if (text.includes('"title"') && text.includes('"description"')) {
             const jsonStart = text.indexOf('{');
@@ -394,7 +394,7 @@ export function useGit({ repoPath = '/repo' }: UseGitOptions = {}) {
           }
         }
       } catch (e) {
-        console.error("Error parsing Claude's response:", e);
+        console.error("Error parsing the model's response:", e);
       }
       
       return result;
@@ -690,6 +690,52 @@ export function useGit({ repoPath = '/repo' }: UseGitOptions = {}) {
     }
   };
   
+  // Recent commits on the current branch, newest first
+  const getCommitLog = async (depth = 20) => {
+    const fs = getFileSystem();
+    const commits = await git.log({ fs, dir: repoPath, depth });
+    return commits.map(({ oid, commit }) => ({
+      oid,
+      message: commit.message.trim(),
+      author: commit.author.name,
+      timestamp: new Date(commit.author.timestamp * 1000).toISOString(),
+    }));
+  };
+  
+  const getCurrentBranch = async () => {
+    const fs = getFileSystem();
+    return (await git.currentBranch({ fs, dir: repoPath })) ?? null;
+  };
+
+  // Unified diff of the working copy against HEAD, limited to `filepaths` when any are given
+  const getWorkingTreeDiff = async (filepaths: string[] = []) => {
+    await synchronizeFiles();
+    const fs = getFileSystem();
+    const head = await git.resolveRef({ fs, dir: repoPath, ref: 'HEAD' });
+    const matrix = await git.statusMatrix({
+      fs,
+      dir: repoPath,
+      ...(filepaths.length > 0 ? { filepaths } : {}),
+    });
+
+    const diffs: string[] = [];
+    for (const [filepath, headStatus, workdirStatus] of matrix) {
+      if (headStatus === 1 && workdirStatus === 1) continue;
+
+      const oldContent = headStatus === 0
+        ? null
+        : Buffer.from((await git.readBlob({ fs, dir: repoPath, oid: head, filepath })).blob).toString('utf8');
+      const newContent = workdirStatus === 0
+        ? null
+        : await fs.promises.readFile(`${repoPath}/${filepath}`, 'utf8');
+      const diff = formatUnifiedDiff(filepath, oldContent, newContent);
+      if (diff) {
+        diffs.push(`diff --git a/${filepath} b/${filepath}\n${diff}`);
+      }
+    }
+    return diffs.join('\n');
+  };
+  
   return {
     isLoading,
     error,
@@ -703,5 +749,8 @@ export function useGit({ repoPath = '/repo' }: UseGitOptions = {}) {
     createBranch,
     getStatusMatrix,
     hasChanges,
+    getCommitLog,
+    getCurrentBranch,
+    getWorkingTreeDiff,
   };
 } 
\ No newline at end of file
@@ -1,6 +1,60 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, type SetStateAction } from "react";
 import { useSandpack } from "@codesandbox/sandpack-react";
 import { SandpackClient, SandboxSetup } from "@codesandbox/sandpack-client";
+import {
+  FILE_MUTATING_TOOLS,
+  decodeCheckpoints,
+  encodeCheckpoints,
+  getRestoreChanges,
+  getToolCallRevert,
+  snapshotFiles,
+  type FileChanges,
+  type FileSnapshot,
+} from "@/lib/checkpoints";
+import { applyHunks, createHunks, formatUnifiedDiff, type DiffHunk } from "@/lib/diff";
+import { applyPatch, insertAtLine, replaceUnique } from "@/lib/edits";
+import {
+  APPLY_SYSTEM_PROMPT,
+  REAPPLYABLE_TOOLS,
+  buildApplyRequest,
+  extractAppliedFile,
+  mergeProposedEdit,
+  type ProposedEdit,
+} from "@/lib/reapply";
+import { recordAgentEdit, summarizeJournal } from "@/lib/editJournal";
+import { mayChangeFiles, runShellCommand, type ShellGit, type ShellResult } from "@/lib/shell";
+import type { SearchProvider } from "@/lib/search";
+import { CodebaseIndex, type EmbeddingProvider } from "@/lib/codeIndex";
+import { SymbolIndex } from "@/lib/symbols";
+import { createGitignoreFilter, createGlobMatcher, hasGlobSyntax, toRelativePath } from "@/lib/glob";
+import { fuzzySearch } from "@/lib/fuzzy";
+import { grepFiles } from "@/lib/grep";
+import { isRetryableError } from "@/lib/providers/retry";
+import { DEFAULT_MAX_TOOL_RESULT_CHARS, serializeToolResult, withEditHunks } from "@/lib/toolResults";
+import {
+  DEFAULT_CONTEXT_BUDGET,
+  SUMMARY_SYSTEM_PROMPT,
+  applyCompaction,
+  createCompactionMessage,
+  estimateRequestTokens,
+  findPruneBoundary,
+  findSummaryBoundary,
+  formatTranscript,
+  latestCompaction,
+  outlineConversation,
+} from "@/lib/compaction";
+import {
+  DEFAULT_MODEL_PRICES,
+  EMPTY_USAGE,
+  addUsage,
+  findModelPrice,
+  formatCost,
+  priceUsage,
+  readUsage,
+  sumUsage,
+  type ModelPrice,
+  type TurnUsage,
+} from "@/lib/usage";
 
 // Add the window interface declaration to make TypeScript happy
 declare global {
@@ -40,6 +94,20 @@ export interface ToolResult {
   searchTerm?: string;
   file?: string;
   changes?: any[];
+  // What create_file replaced when the file already existed
+  previousContent?: string;
+  // The diff of a change to a file, worked out once when the result is created
+  hunks?: DiffHunk[];
+  // Set once the user has undone this change
+  reverted?: boolean;
+  // How many proposed hunks the user accepted in review mode
+  review?: { accepted: number; rejected: number };
+  // run_terminal_cmd: what each file the command changed held before it
+  previousFiles?: FileChanges;
+  // run_terminal_cmd with is_background: whether the job is still running
+  background?: "running" | "finished";
+  // Set when a limit cut the result short; the notes say what was left out
+  truncated?: boolean;
   // Allow any other properties
   [key: string]: any;
 }
@@ -84,12 +152,26 @@ export interface UserTextMessage extends BaseMessage {
 export interface AssistantTextMessage extends BaseMessage {
   type: "assistant_message";
   content: string;
+  // True while the text is still being streamed from the LLM
+  isStreaming?: boolean;
+  // Set on the notice shown when a turn is paused by an agent limit
+  limit?: AgentLimitNotice;
+  // Set on the marker shown where the conversation was compacted
+  compaction?: CompactionNotice;
+  // Thinking blocks the response started with, sent back so extended thinking carries over
+  thinking?: any[];
 }
 
 // Tool call message
 export interface ToolCallMessage extends BaseMessage {
   type: "tool_call";
   toolCall: ToolCall;
+  // True while the tool input is still being streamed from the LLM
+  isStreaming?: boolean;
+  // Raw JSON received so far for the tool input while streaming
+  partialInput?: string;
+  // Thinking blocks of a response whose first kept block is this call
+  thinking?: any[];
 }
 
 // Tool result message
@@ -102,23 +184,132 @@ export interface ToolResultMessage extends BaseMessage {
 // Union type for all message types
 export type Message = UserTextMessage | AssistantTextMessage | ToolCallMessage | ToolResultMessage;
 
+export type ReviewDecision = "accepted" | "rejected";
+
+// A run_terminal_cmd call waiting for the user to allow it
+export interface PendingApproval {
+  toolCallId: string;
+  command: string;
+  explanation?: string;
+}
+
+// A file change waiting for the user in review mode
+export interface PendingReview {
+  toolCallId: string;
+  toolName: string;
+  filePath: string;
+  // Content before the change, null when the file does not exist yet
+  oldContent: string | null;
+  // Proposed content, null for a deletion
+  newContent: string | null;
+  // Deletions have no hunks and are decided as a whole
+  hunks: DiffHunk[];
+  decisions: Record<number, ReviewDecision>;
+}
+
+// The files as they were before the agent answered a user message
+export interface FileCheckpoint {
+  id: string;
+  messageId: string;
+  timestamp: Date;
+  files: FileSnapshot;
+}
+
+// Why a turn was paused before the model finished
+export interface AgentLimitNotice {
+  reason: "max_tool_rounds" | "max_duration" | "repeated_tool_call" | "spending_cap" | "request_failed";
+  toolName?: string;
+}
+
+// What the requests after a compaction leave out. Each compaction carries forward
+// what earlier ones left out, so only the latest applies.
+export interface CompactionNotice {
+  // Tool results up to and including this message are sent without file contents
+  prunedThrough?: string;
+  // Messages up to and including this one are sent as the summary instead
+  summarizedThrough?: string;
+  summary?: string;
+  // Estimated request size before and after, in tokens
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+// Limits that keep a single user turn from running away
+export interface AgentLimits {
+  // Maximum number of tool rounds (model responses with tool calls) per user message
+  maxToolRounds: number;
+  // Maximum wall time per user message, in milliseconds
+  maxDurationMs: number;
+  // Maximum number of consecutive calls to the same tool with identical input
+  maxIdenticalToolCalls: number;
+}
+
+export const DEFAULT_AGENT_LIMITS: AgentLimits = {
+  maxToolRounds: 25,
+  maxDurationMs: 10 * 60 * 1000,
+  maxIdenticalToolCalls: 3,
+};
+
+// Number of extra tool rounds granted by continueRun() when none is given
+export const DEFAULT_CONTINUE_STEPS = 10;
+
+// Oldest checkpoints are dropped past this many, since each holds every file
+const MAX_CHECKPOINTS = 30;
+
+// npm test gives up on a test run that has not reported by then
+const TEST_RUN_TIMEOUT_MS = 2 * 60 * 1000;
+
+// find_definition returns the code of this many declarations, up to this many lines each
+const MAX_DEFINITIONS_WITH_CODE = 5;
+const MAX_DEFINITION_LINES = 80;
+
+// file_search returns at most this many paths, best match first
+const MAX_FILE_SEARCH_RESULTS = 20;
+
 // For Anthropic API message format
 export type AnthropicMessage = {
   role: "user" | "assistant";
   content: any;
 };
 
+// A system prompt as one string, or as text blocks in the Anthropic shape. With several
+// blocks, the last holds context that changes between requests, such as the open file,
+// and adapters that cache prompts leave it out of the cache.
+export type SystemPrompt = string | Array<{ type: "text"; text: string }>;
+
+// Callbacks a streaming-aware CallLLMFunction can invoke while the response is in flight
+export interface LLMStreamCallbacks {
+  onTextDelta?: (text: string) => void;
+  onToolUseStart?: (toolUse: { id: string; name: string }) => void;
+  onToolUseDelta?: (toolUseId: string, partialJson: string) => void;
+  // A transient failure will be retried after a delay; anything streamed so far is void
+  onRetry?: (retry: { attempt: number; maxRetries: number; delayMs: number; error: Error }) => void;
+}
+
+// Must resolve with the complete response. Implementations that support streaming
+// can additionally report deltas through the optional stream callbacks, and should
+// abort their request when the signal fires.
 export type CallLLMFunction = (
   messages: AnthropicMessage[],
-  systemPrompt: string,
-  tools: any[]
+  systemPrompt: SystemPrompt,
+  tools: any[],
+  stream?: LLMStreamCallbacks,
+  signal?: AbortSignal
 ) => Promise<any>;
 
-// Default tools in the format expected by Anthropic API
-export const DEFAULT_TOOLS = [
+// Tool definition in the agent's canonical (Anthropic) shape; provider adapters
+// translate it for other backends
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: Record<string, any>;
+}
+
+// Default tools in the canonical tool definition format
+export const DEFAULT_TOOLS: ToolDefinition[] = [
   {
     name: "edit_file",
-    description: "Edit a file in the code editor",
+    description: "Replace the entire content of a file in the code editor. Prefer str_replace, insert_at_line or apply_patch for targeted changes",
     input_schema: {
       type: "object",
       properties: {
@@ -134,6 +325,72 @@ export const DEFAULT_TOOLS = [
       required: ["file_path", "content"],
     },
   },
+  {
+    name: "str_replace",
+    description: "Replace an exact string in a file. old_str must match the file exactly, including whitespace, and must occur exactly once unless replace_all is set",
+    input_schema: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "The path of the file to edit",
+        },
+        old_str: {
+          type: "string",
+          description: "The exact text to replace; include enough surrounding lines to make it unique",
+        },
+        new_str: {
+          type: "string",
+          description: "The text to put in its place",
+        },
+        replace_all: {
+          type: "boolean",
+          description: "Replace every occurrence instead of requiring a unique match",
+        },
+      },
+      required: ["file_path", "old_str", "new_str"],
+    },
+  },
+  {
+    name: "insert_at_line",
+    description: "Insert text before a line of a file, without replacing anything",
+    input_schema: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "The path of the file to edit",
+        },
+        line: {
+          type: "integer",
+          description: "The one-indexed line to insert before; one past the last line appends to the file",
+        },
+        text: {
+          type: "string",
+          description: "The lines to insert",
+        },
+      },
+      required: ["file_path", "line", "text"],
+    },
+  },
+  {
+    name: "apply_patch",
+    description: "Apply a unified diff to a file. Hunks are located by their context lines, so line numbers may be approximate",
+    input_schema: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "The path of the file to patch",
+        },
+        patch: {
+          type: "string",
+          description: "A unified diff for this one file, with @@ hunk headers, context lines and +/- lines",
+        },
+      },
+      required: ["file_path", "patch"],
+    },
+  },
   {
     name: "create_file",
     description: "Create a new file in the code editor",
@@ -168,7 +425,7 @@ export const DEFAULT_TOOLS = [
   },
   {
     name: "codebase_search",
-    description: "Find snippets of code from the codebase most relevant to the search query",
+    description: "Find snippets of code from the codebase most relevant to the search query. Files are split into chunks at functions, classes, components and test blocks, and ranked by keyword relevance (and by meaning, when embeddings are configured). Each result has the file, its line range, the enclosing symbol, a score and the chunk's code. Describe what the code does or name its identifiers; exact text is better found with grep_search.",
     input_schema: {
       type: "object",
       properties: {
@@ -185,7 +442,7 @@ export const DEFAULT_TOOLS = [
           items: {
             type: "string"
           },
-          description: "Glob patterns for directories to search over",
+          description: "Glob patterns for directories to search over, e.g. 'src/components' or 'src/**/hooks'. Prefix a pattern with ! to leave a directory out",
         },
       },
       required: ["query"],
@@ -223,13 +480,13 @@ export const DEFAULT_TOOLS = [
   },
   {
     name: "run_terminal_cmd",
-    description: "PROPOSE a command to run on behalf of the user",
+    description: "Run a command in a shell over the project files. This is not a real terminal: only ls, cat, grep, mv, cp, rm, mkdir, pwd, echo, `git status`, `git diff [path...]` (working copy against HEAD), `git log [-n N] [--oneline]` and `npm test [filter]` (runs the Sandpack test suite) are available, combined with |, &&, || and ;. There is no cd, redirection or variable expansion; paths are relative to the project root. Returns the exit code, output and any files the command changed.",
     input_schema: {
       type: "object",
       properties: {
         command: {
           type: "string",
-          description: "The terminal command to execute",
+          description: "The command line to run",
         },
         explanation: {
           type: "string",
@@ -237,11 +494,11 @@ export const DEFAULT_TOOLS = [
         },
         is_background: {
           type: "boolean",
-          description: "Whether the command should be run in the background",
+          description: "Run the command without waiting for it, e.g. a long test run. The output replaces the tool result when it finishes and is visible in your next request.",
         },
         require_user_approval: {
           type: "boolean",
-          description: "Whether the user must approve the command before it is executed",
+          description: "Ask the user to approve the command in the chat before it runs. Set this for commands that delete or move files.",
         },
       },
       required: ["command", "is_background", "require_user_approval"],
@@ -267,7 +524,7 @@ export const DEFAULT_TOOLS = [
   },
   {
     name: "grep_search",
-    description: "Fast text-based regex search that finds exact pattern matches within files or directories",
+    description: "Fast text-based regex search that finds exact pattern matches within files or directories. Files excluded by .gitignore are not searched. At most 20 matches per file and 100 in total are returned; when results are cut short the result has truncated set and notes saying what was left out",
     input_schema: {
       type: "object",
       properties: {
@@ -281,23 +538,35 @@ export const DEFAULT_TOOLS = [
         },
         include_pattern: {
           type: "string",
-          description: "Glob pattern for files to include",
+          description: "Glob pattern for files to include, e.g. '*.ts' or 'src/**/*.{ts,tsx}'. A pattern without a slash matches at any depth",
         },
         exclude_pattern: {
           type: "string",
-          description: "Glob pattern for files to exclude",
+          description: "Glob pattern for files to exclude, e.g. '**/*.test.ts' or 'dist'",
         },
         case_sensitive: {
           type: "boolean",
           description: "Whether the search should be case sensitive",
         },
+        literal: {
+          type: "boolean",
+          description: "Search for the query as plain text instead of a regex. An invalid regex is also searched as plain text, with a note",
+        },
+        context_lines_before: {
+          type: "integer",
+          description: "Lines of context to show before each match (up to 10)",
+        },
+        context_lines_after: {
+          type: "integer",
+          description: "Lines of context to show after each match (up to 10)",
+        },
       },
       required: ["query"],
     },
   },
   {
     name: "file_search",
-    description: "Fast file search based on fuzzy matching against file path",
+    description: "Fast file search based on fuzzy matching against file path. Results are ranked best first, favoring matches in the file name and at the start of words, and capped at 20. A query with glob syntax (*, ?, [...], {a,b}) is matched as a glob instead, e.g. '**/*.test.tsx'. Files excluded by .gitignore are not searched",
     input_schema: {
       type: "object",
       properties: {
@@ -313,9 +582,89 @@ export const DEFAULT_TOOLS = [
       required: ["query", "explanation"],
     },
   },
+  {
+    name: "find_definition",
+    description: "Find where a function, component, class, type or variable is declared in the JavaScript and TypeScript files, with its code. Given the file the name is used in, the name is resolved through that file's imports and re-exports to the module that declares it. Use Class.method for methods and namespace.member for namespace imports.",
+    input_schema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "The name to look up, e.g. useCart, Button or CartStore.addItem",
+        },
+        file_path: {
+          type: "string",
+          description: "Optional file where the name is used, to follow its imports",
+        },
+        explanation: {
+          type: "string",
+          description: "One sentence explanation as to why this tool is being used",
+        },
+      },
+      required: ["symbol"],
+    },
+  },
+  {
+    name: "find_references",
+    description: "Find the uses of a symbol. When the name resolves to one declaration, only its file and the files that import it (under any local name) are searched, so same-named symbols elsewhere are not included. Each reference is marked definition, import, export or reference.",
+    input_schema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "The name to find uses of",
+        },
+        file_path: {
+          type: "string",
+          description: "Optional file that declares or imports the symbol, to pick the right declaration",
+        },
+        explanation: {
+          type: "string",
+          description: "One sentence explanation as to why this tool is being used",
+        },
+      },
+      required: ["symbol"],
+    },
+  },
+  {
+    name: "list_symbols",
+    description: "List the declarations (functions, components, classes and their methods, types, variables), imports and exports of a JavaScript or TypeScript file, with line ranges",
+    input_schema: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "The file to list symbols of",
+        },
+        explanation: {
+          type: "string",
+          description: "One sentence explanation as to why this tool is being used",
+        },
+      },
+      required: ["file_path"],
+    },
+  },
+  {
+    name: "import_graph",
+    description: "Show what a file imports (project files resolved to their paths, and packages) and which files import it",
+    input_schema: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "The file to show the imports of",
+        },
+        explanation: {
+          type: "string",
+          description: "One sentence explanation as to why this tool is being used",
+        },
+      },
+      required: ["file_path"],
+    },
+  },
   {
     name: "reapply",
-    description: "Calls a smarter model to apply the last edit to the specified file",
+    description: "Retry the last edit proposed for a file when it did not apply or applied wrongly. The edit is reconciled with the current file by an apply model, or by a looser merge when none is configured, and the resulting diff is returned",
     input_schema: {
       type: "object",
       properties: {
@@ -329,13 +678,13 @@ export const DEFAULT_TOOLS = [
   },
   {
     name: "web_search",
-    description: "Search the web for real-time information about any topic",
+    description: "Search documentation for information that is not in the codebase. Depending on the configuration this searches a web search service, or an offline index of the React docs, the project's markdown files and the READMEs of its dependencies. Each result names its source; if search is not configured the tool says so.",
     input_schema: {
       type: "object",
       properties: {
         search_term: {
           type: "string",
-          description: "The search term to look up on the web",
+          description: "The search term to look up, e.g. an API name or an error message",
         },
         explanation: {
           type: "string",
@@ -347,10 +696,22 @@ export const DEFAULT_TOOLS = [
   },
   {
     name: "diff_history",
-    description: "Retrieve the history of recent changes made to files in the workspace",
+    description: "Retrieve the changes made to files in this session, by you and by the user in the editor, newest first, with unified diffs. Can include recent commits of the connected repository",
     input_schema: {
       type: "object",
       properties: {
+        file_path: {
+          type: "string",
+          description: "Only return changes to this file",
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of changes to return (default 20)",
+        },
+        include_git_log: {
+          type: "boolean",
+          description: "Also return recent commits from the repository's git log",
+        },
         explanation: {
           type: "string",
           description: "One sentence explanation as to why this tool is being used",
@@ -412,6 +773,7 @@ It is *EXTREMELY* important that your generated code can be run immediately by t
 5. Unless you are appending some small easy to apply edit to a file, or creating a new file, you MUST read the the contents or section of what you're editing before editing it.
 6. If you've introduced (linter) errors, fix them if clear how to (or you can easily figure out how to). Do not make uneducated guesses. And DO NOT loop more than 3 times on fixing linter errors on the same file. On the third time, you should stop and ask the user what to do next.
 7. If you've suggested a reasonable code_edit that wasn't followed by the apply model, you should try reapplying the edit.
+8. To change part of an existing file, use str_replace, insert_at_line or apply_patch rather than resending the whole file with edit_file.
 </making_code_changes>
 
 <searching_and_reading>
@@ -419,6 +781,7 @@ You have tools to search the codebase and read files. Follow these rules regardi
 1. If available, heavily prefer the semantic search tool to grep search, file search, and list dir tools.
 2. If you need to read a file, prefer to read larger sections of the file at once over multiple smaller calls.
 3. If you have found a reasonable place to edit or answer, do not continue calling tools. Edit or answer from the information you have found.
+4. To find where a symbol is declared or used, prefer find_definition and find_references to grep search: they follow imports and ignore comments and strings.
 </searching_and_reading>
 
 You MUST use the following format when citing code regions or blocks:
@@ -432,36 +795,269 @@ interface UseSandpackAgentProps {
   isLoading?: boolean;
   systemPrompt?: string;
   tools?: any[];
+  limits?: Partial<AgentLimits>;
+  // Hold edit_file, create_file and delete_file for the user to accept or reject
+  reviewMode?: boolean;
+  // Model used by reapply to reconcile a failed edit with the current file
+  applyLLM?: CallLLMFunction;
+  // The connected repository, for git in run_terminal_cmd and commits in diff_history
+  git?: ShellGit;
+  // Run the test suite, for npm test in run_terminal_cmd
+  runTests?: () => Promise<TestResults>;
+  // Where web_search looks; without one the tool reports that search is not configured
+  searchProvider?: SearchProvider;
+  // Ranks codebase_search results by meaning as well as keywords
+  embeddingProvider?: EmbeddingProvider;
+  // Longer tool results are cut down to their start and end before they are sent to the model
+  maxToolResultChars?: number;
+  // Estimated tokens a request may reach before older messages are compacted
+  contextBudget?: number;
+  // US dollars per million tokens by model name prefix, for the usage totals
+  prices?: Record<string, ModelPrice>;
+  // Stop sending requests once the session has cost this many US dollars
+  spendingCap?: number;
+}
+
+export interface GitLogEntry {
+  oid: string;
+  message: string;
+  author: string;
+  timestamp: string;
+}
+
+// A tool_use block from the model that has not been executed yet
+interface PendingToolCall {
+  id: string;
+  name: string;
+  input: any;
+  thinking?: any[];
+}
+
+// Progress of the current user turn against the agent limits
+interface TurnBudget {
+  toolRounds: number;
+  maxToolRounds: number;
+  deadline: number;
+  lastToolCallKey: string | null;
+  identicalToolCalls: number;
 }
 
+// Tools that never change files, so several of them can run at the same time
+const READ_ONLY_TOOLS = new Set([
+  "read_file",
+  "list_dir",
+  "grep_search",
+  "file_search",
+  "codebase_search",
+  "find_definition",
+  "find_references",
+  "list_symbols",
+  "import_graph",
+  "web_search",
+  "diff_history",
+  "get_test_results",
+]);
+
+// Tools held for the user in review mode; targeted edits are reviewed through the edit_file they save with
+const REVIEWED_TOOLS = new Set(["edit_file", "create_file", "delete_file"]);
+
+// The files the search tools look at: everything the project's .gitignore files do not exclude
+const searchableFiles = (files: Record<string, { code: string }>): FileSnapshot => {
+  const snapshot = snapshotFiles(files);
+  const ignored = createGitignoreFilter(snapshot);
+  return Object.fromEntries(Object.entries(snapshot).filter(([path]) => !ignored(path)));
+};
+
+// Split an LLM response into its text and the tool_use blocks to execute
+const parseLLMResponse = (data: any): { text: string; toolCalls: PendingToolCall[]; thinking?: any[] } => {
+  // Fallback for unexpected response format
+  if (!data || !Array.isArray(data.content)) {
+    return { text: "Received a response in an unexpected format.", toolCalls: [] };
+  }
+
+  const textParts: string[] = [];
+  const toolCalls: PendingToolCall[] = [];
+  for (const contentItem of data.content) {
+    if (contentItem.type === "text" && contentItem.text) {
+      textParts.push(contentItem.text);
+    } else if (contentItem.type === "tool_use") {
+      toolCalls.push({
+        id: contentItem.id || `tool-${generateId()}`,
+        name: contentItem.name || contentItem.tool_use?.name,
+        input: contentItem.input || contentItem.tool_use?.input || {},
+      });
+    }
+  }
+
+  const text = textParts.join("\n\n");
+  // Thinking goes back to the model ahead of the response's text, or its first tool call
+  // when it has no text; the API rejects a tool loop whose thinking was dropped
+  const thinking = data.content.filter((block: any) => block.type === "thinking" || block.type === "redacted_thinking");
+  if (thinking.length > 0 && !text && toolCalls.length > 0) {
+    toolCalls[0].thinking = thinking;
+  }
+  return { text, toolCalls, thinking: text && thinking.length > 0 ? thinking : undefined };
+};
+
 // Helper function for delay
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 // Helper to generate unique IDs
 const generateId = () => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
+// Record a file change for gitFs synchronization; null content means the file was deleted
+const trackFileChange = (filePath: string, content: string | null) => {
+  if (typeof window === 'undefined') return;
+
+  if (!window.changedFilePaths) {
+    window.changedFilePaths = new Set();
+  }
+  window.changedFilePaths.add(filePath);
+
+  if (!window.sandpackFiles) {
+    window.sandpackFiles = {};
+  }
+  if (content === null) {
+    delete window.sandpackFiles[filePath];
+  } else {
+    window.sandpackFiles[filePath] = content;
+  }
+};
+
+// Write tracked changes to gitFs if a repository is connected
+const syncGitWorkingCopy = async (reason: string) => {
+  try {
+    if (typeof window !== 'undefined' && window.gitFs && typeof window.synchronizeFiles === 'function') {
+      await window.synchronizeFiles();
+      console.log(`Synchronized files to gitFs after ${reason}`);
+    }
+  } catch (syncError) {
+    console.warn(`Failed to sync files to gitFs after ${reason}:`, syncError);
+  }
+};
+
 export function useSandpackAgent({
   callLLM,
   isLoading = false,
   systemPrompt = DEFAULT_SYSTEM_PROMPT,
   tools = DEFAULT_TOOLS,
+  limits: limitOverrides,
+  reviewMode = false,
+  applyLLM,
+  git,
+  runTests,
+  searchProvider,
+  embeddingProvider,
+  maxToolResultChars = DEFAULT_MAX_TOOL_RESULT_CHARS,
+  contextBudget = DEFAULT_CONTEXT_BUDGET,
+  prices = DEFAULT_MODEL_PRICES,
+  spendingCap,
 }: UseSandpackAgentProps) {
+  const limits: AgentLimits = { ...DEFAULT_AGENT_LIMITS, ...limitOverrides };
   const { sandpack } = useSandpack();
   const { files, activeFile } = sandpack;
+  // Tool calls run across renders, so they read files from here rather than a stale closure
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  const activeFileRef = useRef(activeFile);
+  activeFileRef.current = activeFile;
   const [loading, setLoading] = useState(isLoading);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessageState] = useState<Message[]>([]);
+  // Turns can start from a stale closure, e.g. when the queue is drained after a turn, so
+  // they build their requests from here; every update goes through setMessages to keep it current
+  const messagesRef = useRef<Message[]>([]);
+  const setMessages = (update: SetStateAction<Message[]>) => {
+    messagesRef.current = typeof update === "function" ? update(messagesRef.current) : update;
+    setMessageState(messagesRef.current);
+  };
   const [testResults, setTestResults] = useState<TestResults>({});
+  const [canContinue, setCanContinue] = useState(false);
+  const [queuedMessages, setQueuedMessages] = useState<string[]>([]);
+  const [checkpoints, setCheckpoints] = useState<FileCheckpoint[]>([]);
+  const [canRedo, setCanRedo] = useState(false);
+  // How many of the oldest checkpoints did not fit in storage and would be lost on reload
+  const [unsavedCheckpoints, setUnsavedCheckpoints] = useState(0);
   
   // Refs to track conversation state
   const conversationInProgress = useRef(false);
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
   const messageQueue = useRef<string[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const turnBudget = useRef<TurnBudget>({
+    toolRounds: 0,
+    maxToolRounds: DEFAULT_AGENT_LIMITS.maxToolRounds,
+    deadline: 0,
+    lastToolCallKey: null,
+    identicalToolCalls: 0,
+  });
+  // A run paused by a limit, or by a model request that failed and can be sent again
+  const pausedTurn = useRef<{ pendingToolCalls: PendingToolCall[]; fullSystemPrompt: SystemPrompt; failedRequest?: boolean } | null>(null);
+  // The system prompt of the model request that just failed, so the turn can resume from it
+  const failedRequest = useRef<SystemPrompt | null>(null);
+  // Undone changes that can be reapplied, most recent last
+  const redoStack = useRef<Array<{ changes: FileChanges; toolResultIds: string[] }>>([]);
+  const checkpointsLoaded = useRef(false);
+  // The last edit the model proposed for each file, for reapply
+  const proposedEdits = useRef<Record<string, ProposedEdit>>({});
+  // Reviews waiting on the user, with the callback that resumes their tool call
+  const reviewWaiters = useRef<Record<string, {
+    review: PendingReview;
+    resolve: (decisions: Record<number, ReviewDecision> | null) => void;
+  }>>({});
+  const [pendingReviews, setPendingReviews] = useState<PendingReview[]>([]);
+  // Commands waiting on the user's approval, like reviews
+  const approvalWaiters = useRef<Record<string, {
+    approval: PendingApproval;
+    resolve: (approved: boolean | null) => void;
+  }>>({});
+  const [pendingApprovals, setPendingApprovals] = useState<PendingApproval[]>([]);
+  // Results of finished background commands by tool call id, merged into their tool results
+  const backgroundJobs = useRef<Record<string, ToolResult>>({});
+  // Search index over the files, brought up to date by each codebase_search
+  const codeIndex = useRef<CodebaseIndex | null>(null);
+  // Declarations and imports of the source files, for the navigation tools
+  const symbolIndex = useRef(new SymbolIndex());
+
+  // Mirror the queue into state so the UI can show what is waiting to be sent
+  const syncQueuedMessages = () => setQueuedMessages([...messageQueue.current]);
+
+  // Token usage per user turn; the loop reads the ref, so the spending cap sees every call
+  const [turnUsage, setTurnUsage] = useState<TurnUsage[]>([]);
+  const turnUsageRef = useRef<TurnUsage[]>([]);
+  const currentTurnId = useRef<string | null>(null);
+  const updateTurnUsage = (turns: TurnUsage[]) => {
+    turnUsageRef.current = turns;
+    setTurnUsage(turns);
+  };
+
+  // Add the usage reported by an LLM response to the current turn
+  const recordUsage = (response: any) => {
+    const messageId = currentTurnId.current;
+    if (!messageId) return;
+    const usage = readUsage(response?.usage);
+    const cost = priceUsage(usage, findModelPrice(response?.model, prices));
+    const turns = turnUsageRef.current;
+    const existing = turns.find((turn) => turn.messageId === messageId);
+    updateTurnUsage(existing
+      ? turns.map((turn) => (turn === existing ? addUsage(turn, usage, cost) : turn))
+      : [...turns, addUsage({ ...EMPTY_USAGE, messageId }, usage, cost)]);
+  };
+
+  const spendingCapReached = () =>
+    spendingCap !== undefined && sumUsage(turnUsageRef.current).cost >= spendingCap;
+
+  const syncPendingReviews = () =>
+    setPendingReviews(Object.values(reviewWaiters.current).map(({ review }) => review));
+
+  const syncPendingApprovals = () =>
+    setPendingApprovals(Object.values(approvalWaiters.current).map(({ approval }) => approval));
   
   // Effect to process message queue
   useEffect(() => {
     const processQueue = async () => {
       if (messageQueue.current.length > 0 && !conversationInProgress.current) {
         const nextMessage = messageQueue.current.shift();
+        syncQueuedMessages();
         if (nextMessage) {
           await processUserMessage(nextMessage);
         }
@@ -484,8 +1080,27 @@ export function useSandpackAgent({
   }, [messages]);
 
   // Convert our custom message types to Anthropic API format
-  const formatMessagesForAPI = (messagesToFormat: Message[]): AnthropicMessage[] => {
+  const formatMessagesForAPI = (conversation: Message[]): AnthropicMessage[] => {
     const formattedMessages: AnthropicMessage[] = [];
+    // After a compaction, older messages are sent as its summary
+    const messagesToFormat = applyCompaction(conversation);
+    // Each result is serialized for the tool that produced it
+    const toolCallsById: Record<string, ToolCall> = {};
+    for (const msg of messagesToFormat) {
+      if (msg.type === "tool_call") toolCallsById[msg.toolCall.id] = msg.toolCall;
+    }
+
+    // Consecutive blocks from the same role belong to one API message: an assistant
+    // turn is its text plus every tool_use block, and the following user turn
+    // carries every matching tool_result
+    const appendBlock = (role: AnthropicMessage["role"], block: any) => {
+      const last = formattedMessages[formattedMessages.length - 1];
+      if (last && last.role === role) {
+        last.content.push(block);
+      } else {
+        formattedMessages.push({ role, content: [block] });
+      }
+    };
     
     // Process all messages in sequence
     for (let i = 0; i < messagesToFormat.length; i++) {
@@ -493,47 +1108,34 @@ export function useSandpackAgent({
       
       switch(msg.type) {
         case "user_message":
-          formattedMessages.push({
-            role: "user",
-            content: msg.content
-          });
+          appendBlock("user", { type: "text", text: msg.content });
           break;
           
         case "assistant_message":
-          formattedMessages.push({
-            role: "assistant",
-            content: msg.content
-          });
+          // Limit and compaction notices are for the user only, as is the greeting the chat opens with
+          if (msg.limit || msg.compaction || formattedMessages.length === 0) {
+            break;
+          }
+          msg.thinking?.forEach((block) => appendBlock("assistant", block));
+          appendBlock("assistant", { type: "text", text: msg.content });
           break;
           
         case "tool_call":
-          // Add tool call to assistant's messages
-          formattedMessages.push({
-            role: "assistant",
-            content: [
-              {
-                type: "tool_use",
-                id: msg.toolCall.id,
-                name: msg.toolCall.name,
-                input: msg.toolCall.arguments
-              }
-            ]
+          msg.thinking?.forEach((block) => appendBlock("assistant", block));
+          appendBlock("assistant", {
+            type: "tool_use",
+            id: msg.toolCall.id,
+            name: msg.toolCall.name,
+            input: msg.toolCall.arguments
           });
           break;
           
         case "tool_result":
-          // Add tool result to user's messages
-          formattedMessages.push({
-            role: "user",
-            content: [
-              {
-                type: "tool_result",
-                tool_use_id: msg.toolCallId,
-                content: typeof msg.result === "string" 
-                  ? msg.result
-                  : JSON.stringify(msg.result)
-              }
-            ]
+          appendBlock("user", {
+            type: "tool_result",
+            tool_use_id: msg.toolCallId,
+            content: serializeToolResult(msg.result, toolCallsById[msg.toolCallId], maxToolResultChars),
+            ...(msg.result.status === "error" ? { is_error: true } : {})
           });
           break;
       }
@@ -542,127 +1144,543 @@ export function useSandpackAgent({
     return formattedMessages;
   };
 
-  // Process a user message and handle the full conversation flow
-  const processUserMessage = async (userMessage: string) => {
-    try {
-      conversationInProgress.current = true;
-      
-      // Add user message
-      const userMessageObj: UserTextMessage = {
-        id: generateId(),
-        type: "user_message",
-        content: userMessage,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, userMessageObj]);
-      setLoading(true);
+  // Create stream callbacks that render in-flight text and tool input as draft messages
+  const createStreamDraft = () => {
+    const draftIds: string[] = [];
+    const startedAt = new Date();
+    let textMessageId: string | null = null;
+    let text = "";
+    let toolDrafts: Record<string, { messageId: string; name: string }> = {};
+    // Shown while waiting to retry a failed request, until the retry starts streaming
+    let retryNoticeId: string | null = null;
 
-      // Get current file content
-      const currentFileContent = activeFile
-        ? files[activeFile]?.code || ""
-        : "";
+    const upsertMessage = (message: Message) => {
+      setMessages((prev) => {
+        const index = prev.findIndex((m) => m.id === message.id);
+        if (index === -1) {
+          return [...prev, message];
+        }
+        const next = [...prev];
+        next[index] = message;
+        return next;
+      });
+    };
 
-      // Format messages for Anthropic API
-      const formattedMessages = formatMessagesForAPI(messages.concat(userMessageObj));
+    const clearRetryNotice = () => {
+      if (!retryNoticeId) return;
+      const noticeId = retryNoticeId;
+      retryNoticeId = null;
+      setMessages((prev) => prev.filter((m) => m.id !== noticeId));
+    };
 
-      // Create context about the current state
-      const contextInfo = `
-Current file: ${activeFile || "None"}
-Available files: ${Object.keys(files).join(", ")}
-${
-  activeFile
-    ? `Current file content:
-\`\`\`
-${currentFileContent}
-\`\`\``
-    : ""
-}
-`;
-      // Call LLM with the provided function
-      const fullSystemPrompt = systemPrompt + "\n\n" + contextInfo;
-      const data = await callLLM(formattedMessages, fullSystemPrompt, tools);
-
-      // Extract the assistant's response
-      let assistantContent = "";
-      const toolCalls = [];
-
-      // Handle different response formats
-      if (data && data.content) {
-        // Find text content and tool use
-        for (const contentItem of data.content) {
-          if ((contentItem as any).type === "text") {
-            assistantContent = (contentItem as any).text || "";
-          } else if ((contentItem as any).type === "tool_use") {
-            const toolCall = {
-              id: (contentItem as any).id || `tool-${generateId()}`,
-              name: (contentItem as any).name || (contentItem as any).tool_use?.name,
-              input: (contentItem as any).input || (contentItem as any).tool_use?.input || {},
-            };
-            toolCalls.push(toolCall);
-          }
+    const callbacks: LLMStreamCallbacks = {
+      onTextDelta: (delta) => {
+        clearRetryNotice();
+        if (!textMessageId) {
+          textMessageId = generateId();
+          draftIds.push(textMessageId);
         }
-      } else {
-        // Fallback for unexpected response format
-        assistantContent = "Received a response in an unexpected format.";
-      }
-
-      // Create the assistant message if there's text content
-      if (assistantContent) {
-        const assistantMessage: AssistantTextMessage = {
-          id: generateId(),
+        text += delta;
+        upsertMessage({
+          id: textMessageId,
+          type: "assistant_message",
+          content: text,
+          timestamp: startedAt,
+          isStreaming: true,
+        });
+      },
+      onToolUseStart: ({ id, name }) => {
+        clearRetryNotice();
+        const messageId = generateId();
+        draftIds.push(messageId);
+        toolDrafts[id] = { messageId, name };
+        upsertMessage({
+          id: messageId,
+          type: "tool_call",
+          timestamp: new Date(),
+          toolCall: { id, name, arguments: {} },
+          isStreaming: true,
+          partialInput: "",
+        });
+      },
+      onToolUseDelta: (toolUseId, partialJson) => {
+        const draft = toolDrafts[toolUseId];
+        if (!draft) return;
+        upsertMessage({
+          id: draft.messageId,
+          type: "tool_call",
+          timestamp: startedAt,
+          toolCall: { id: toolUseId, name: draft.name, arguments: {} },
+          isStreaming: true,
+          partialInput: partialJson,
+        });
+      },
+      // The failed attempt's output is dropped; the retry streams the whole response again
+      onRetry: ({ attempt, maxRetries, delayMs, error }) => {
+        discard();
+        draftIds.length = 0;
+        textMessageId = null;
+        text = "";
+        toolDrafts = {};
+        retryNoticeId = generateId();
+        draftIds.push(retryNoticeId);
+        upsertMessage({
+          id: retryNoticeId,
           type: "assistant_message",
-          content: assistantContent,
+          content: `${error.message}. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxRetries})...`,
           timestamp: new Date(),
-        };
+          isStreaming: true,
+        });
+      },
+    };
 
-        // Add the assistant message to the UI
-        setMessages((prev) => [...prev, assistantMessage]);
+    // Remove the drafts so the completed response can be rendered in their place
+    const discard = () => {
+      if (draftIds.length > 0) {
+        setMessages((prev) => prev.filter((m) => !draftIds.includes(m.id)));
       }
+    };
 
-      // Process all tool calls
-      if (toolCalls.length > 0) {
-        await processToolCalls(toolCalls, messages.concat(userMessageObj), fullSystemPrompt);
-      }
+    return { callbacks, discard };
+  };
+
+  // Call the LLM, streaming partial output into the chat when callLLM supports it
+  const requestLLM = async (
+    formattedMessages: AnthropicMessage[],
+    fullSystemPrompt: SystemPrompt,
+    signal: AbortSignal
+  ) => {
+    signal.throwIfAborted();
+    const draft = createStreamDraft();
+    try {
+      const data = await callLLM(formattedMessages, fullSystemPrompt, tools, draft.callbacks, signal);
+      recordUsage(data);
+      return data;
     } catch (error) {
-      console.error("Error calling LLM:", error);
+      failedRequest.current = fullSystemPrompt;
+      throw error;
+    } finally {
+      draft.discard();
+    }
+  };
 
-      // Add error message
-      const errorMessage: AssistantTextMessage = {
-        id: generateId(),
+  // Keep the next request within the context budget. File contents in older tool results
+  // go first; if that is not enough, older messages are summarized. A marker in the chat
+  // records what was left out, and the conversation is returned with it appended.
+  const compactConversation = async (
+    conversation: Message[],
+    fullSystemPrompt: SystemPrompt,
+    signal: AbortSignal
+  ): Promise<Message[]> => {
+    const estimate = (candidate: Message[]) =>
+      estimateRequestTokens(formatMessagesForAPI(candidate), fullSystemPrompt, tools);
+    const tokensBefore = estimate(conversation);
+    if (tokensBefore <= contextBudget) {
+      return conversation;
+    }
+
+    const markerId = generateId();
+    let compaction: CompactionNotice = {
+      ...latestCompaction(conversation),
+      prunedThrough: findPruneBoundary(conversation),
+      tokensBefore,
+      tokensAfter: tokensBefore,
+    };
+    if (estimate([...conversation, createCompactionMessage(markerId, compaction)]) > contextBudget) {
+      const after = compaction.summarizedThrough
+        ? conversation.findIndex((m) => m.id === compaction.summarizedThrough)
+        : -1;
+      const boundary = findSummaryBoundary(conversation, after, contextBudget, estimate);
+      if (boundary !== -1) {
+        const toSummarize = conversation.slice(after + 1, boundary);
+        const transcript = [
+          compaction.summary ? `Summary of the conversation before this point:\n${compaction.summary}` : "",
+          formatTranscript(toSummarize),
+        ].filter(Boolean).join("\n\n");
+
+        let summary: string;
+        try {
+          const data = await callLLM(
+            [{ role: "user", content: [{ type: "text", text: `Summarize this conversation:\n\n${transcript}` }] }],
+            SUMMARY_SYSTEM_PROMPT,
+            [],
+            undefined,
+            signal
+          );
+          recordUsage(data);
+          summary = parseLLMResponse(data).text.trim();
+          if (!summary) throw new Error("the summary was empty");
+        } catch (error) {
+          signal.throwIfAborted();
+          console.warn("Could not summarize the conversation, falling back to an outline:", error);
+          summary = [compaction.summary, outlineConversation(toSummarize)].filter(Boolean).join("\n\n");
+        }
+        compaction = { ...compaction, summary, summarizedThrough: conversation[boundary - 1].id };
+      }
+    }
+
+    compaction = { ...compaction, tokensAfter: estimate([...conversation, createCompactionMessage(markerId, compaction)]) };
+    const marker = createCompactionMessage(markerId, compaction);
+    setMessages((prev) => [...prev, marker]);
+    return [...conversation, marker];
+  };
+
+  // Close out a stopped turn: every dangling tool call gets a cancelled result and an
+  // assistant message ends the turn, so the transcript stays a valid message sequence
+  const finishStoppedTurn = () => {
+    setMessages((prev) => {
+      const answeredIds = new Set(
+        prev.filter((m): m is ToolResultMessage => m.type === "tool_result").map((m) => m.toolCallId)
+      );
+      const cancelledResults: ToolResultMessage[] = prev
+        .filter((m): m is ToolCallMessage => m.type === "tool_call" && !answeredIds.has(m.toolCall.id))
+        .map((m) => ({
+          id: generateId(),
+          type: "tool_result",
+          timestamp: new Date(),
+          toolCallId: m.toolCall.id,
+          result: {
+            status: "error",
+            error: "Tool call cancelled: the user stopped the agent before it ran",
+            cancelled: true,
+          },
+        }));
+      const stoppedMessage: AssistantTextMessage = {
+        id: generateId(),
+        type: "assistant_message",
+        content: "Stopped by user.",
+        timestamp: new Date(),
+      };
+      return [...prev, ...cancelledResults, stoppedMessage];
+    });
+  };
+
+  // Run one agent turn with shared loading, cancellation and error handling
+  const runTurn = async (turn: (signal: AbortSignal) => Promise<void>) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
+
+    try {
+      conversationInProgress.current = true;
+      failedRequest.current = null;
+      setLoading(true);
+      await turn(signal);
+    } catch (error) {
+      if (signal.aborted) {
+        finishStoppedTurn();
+        return;
+      }
+
+      console.error("Error calling LLM:", error);
+
+      // Everything before a failed model request is already in the conversation, so the
+      // turn can resume by sending that request again
+      const failedPrompt = failedRequest.current;
+      failedRequest.current = null;
+      if (failedPrompt !== null) {
+        pausedTurn.current = { pendingToolCalls: [], fullSystemPrompt: failedPrompt, failedRequest: true };
+        setCanContinue(true);
+      }
+
+      // Add error message
+      const reason = error instanceof Error ? error.message : "Failed to get response";
+      const errorMessage: AssistantTextMessage = {
+        id: generateId(),
         type: "assistant_message",
-        content: `Error: ${
-          error instanceof Error ? error.message : "Failed to get response"
-        }. Please check your settings and try again.`,
+        content: failedPrompt === null
+          ? `Error: ${reason}. Please check your settings and try again.`
+          : `Error: ${reason}. ${isRetryableError(error) ? "The request still failed after several retries." : "Please check your settings."} You can retry to pick up where I left off.`,
         timestamp: new Date(),
+        ...(failedPrompt !== null ? { limit: { reason: "request_failed" as const } } : {}),
       };
 
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setLoading(false);
       conversationInProgress.current = false;
       
       // Process next message in queue if any
       if (messageQueue.current.length > 0) {
         const nextMessage = messageQueue.current.shift();
+        syncQueuedMessages();
         if (nextMessage) {
           await processUserMessage(nextMessage);
         }
       }
     }
   };
+
+  // Process a user message and handle the full conversation flow
+  const processUserMessage = (userMessage: string) => runTurn(async (signal) => {
+    // A new message abandons any run that was paused by a limit
+    pausedTurn.current = null;
+    setCanContinue(false);
+    turnBudget.current = {
+      toolRounds: 0,
+      maxToolRounds: limits.maxToolRounds,
+      deadline: Date.now() + limits.maxDurationMs,
+      lastToolCallKey: null,
+      identicalToolCalls: 0,
+    };
+
+    // Add user message
+    const userMessageObj: UserTextMessage = {
+      id: generateId(),
+      type: "user_message",
+      content: userMessage,
+      timestamp: new Date(),
+    };
+
+    setMessages((prev) => [...prev, userMessageObj]);
+    currentTurnId.current = userMessageObj.id;
+
+    if (spendingCapReached()) {
+      const noticeMessage: AssistantTextMessage = {
+        id: generateId(),
+        type: "assistant_message",
+        content: `I didn't send this message because this session has reached its spending cap of ${formatCost(spendingCap ?? 0)}. Raise or remove the cap to continue.`,
+        timestamp: new Date(),
+        limit: { reason: "spending_cap" },
+      };
+      setMessages((prev) => [...prev, noticeMessage]);
+      return;
+    }
+
+    // A queued message starts after the previous turn's edits, so read the files as they are now
+    const files = filesRef.current;
+    const activeFile = activeFileRef.current;
+
+    // Snapshot the files so everything this turn changes can be rolled back
+    const checkpoint: FileCheckpoint = {
+      id: generateId(),
+      messageId: userMessageObj.id,
+      timestamp: new Date(),
+      files: snapshotFiles(files),
+    };
+    setCheckpoints((prev) => [...prev, checkpoint].slice(-MAX_CHECKPOINTS));
+    redoStack.current = [];
+    setCanRedo(false);
+
+    // Get current file content
+    const currentFileContent = activeFile
+      ? files[activeFile]?.code || ""
+      : "";
+
+    // Create context about the current state
+    const contextInfo = `
+Current file: ${activeFile || "None"}
+Available files: ${Object.keys(files).join(", ")}
+${
+  activeFile
+    ? `Current file content:
+\`\`\`
+${currentFileContent}
+\`\`\``
+    : ""
+}
+`;
+    // The context changes with every edit, so it goes in its own block after the cacheable prompt
+    const fullSystemPrompt: SystemPrompt = [
+      { type: "text", text: systemPrompt },
+      { type: "text", text: contextInfo },
+    ];
+    await respond(messagesRef.current, fullSystemPrompt, signal);
+  });
+
+  // Ask the model to answer the conversation, then run the tool loop on its reply
+  const respond = async (conversation: Message[], fullSystemPrompt: SystemPrompt, signal: AbortSignal) => {
+    // Compact the conversation first if it has grown past the context budget
+    let previousMessages = await compactConversation(conversation, fullSystemPrompt, signal);
+    const data = await requestLLM(formatMessagesForAPI(previousMessages), fullSystemPrompt, signal);
+    const { text, toolCalls, thinking } = parseLLMResponse(data);
+
+    // Create the assistant message if there's text content
+    if (text) {
+      const assistantMessage: AssistantTextMessage = {
+        id: generateId(),
+        type: "assistant_message",
+        content: text,
+        timestamp: new Date(),
+        ...(thinking ? { thinking } : {}),
+      };
+
+      // Add the assistant message to the UI
+      setMessages((prev) => [...prev, assistantMessage]);
+      previousMessages = [...previousMessages, assistantMessage];
+    }
+
+    // Process all tool calls
+    if (toolCalls.length > 0) {
+      await processToolCalls(toolCalls, previousMessages, fullSystemPrompt, signal);
+    }
+  };
+
+  // Stop the tool loop at a limit, keeping the unexecuted calls so the user can resume
+  const pauseTurn = (
+    limit: AgentLimitNotice,
+    pendingToolCalls: PendingToolCall[],
+    fullSystemPrompt: SystemPrompt
+  ) => {
+    pausedTurn.current = { pendingToolCalls, fullSystemPrompt };
+    setCanContinue(true);
+
+    const content = (() => {
+      switch (limit.reason) {
+        case "max_tool_rounds":
+          return `I've paused after ${turnBudget.current.toolRounds} tool steps because the step limit for this message was reached.`;
+        case "max_duration":
+          return `I've paused because this message has been running for more than ${Math.round(limits.maxDurationMs / 60000)} minutes.`;
+        case "repeated_tool_call":
+          return `I've paused because I tried to call ${limit.toolName} ${turnBudget.current.identicalToolCalls} times in a row with the same input, which looks like a loop.`;
+        case "spending_cap":
+          return `I've paused because this session has reached its spending cap of ${formatCost(spendingCap ?? 0)}. Raise or remove the cap first if you want me to continue.`;
+      }
+    })();
+
+    const noticeMessage: AssistantTextMessage = {
+      id: generateId(),
+      type: "assistant_message",
+      content: `${content} You can let me continue, or send a new message to change course.`,
+      timestamp: new Date(),
+      limit,
+    };
+    setMessages((prev) => [...prev, noticeMessage]);
+  };
+
+  // Resume a run paused by a limit or a failed request, allowing up to `steps` more tool rounds
+  const continueRun = (steps: number = DEFAULT_CONTINUE_STEPS) => {
+    const paused = pausedTurn.current;
+    if (!paused || conversationInProgress.current) return Promise.resolve();
+
+    pausedTurn.current = null;
+    setCanContinue(false);
+    turnBudget.current = {
+      ...turnBudget.current,
+      maxToolRounds: turnBudget.current.toolRounds + steps,
+      deadline: Date.now() + limits.maxDurationMs,
+      lastToolCallKey: null,
+      identicalToolCalls: 0,
+    };
+
+    return runTurn((signal) =>
+      paused.failedRequest
+        ? respond(messagesRef.current, paused.fullSystemPrompt, signal)
+        : processToolCalls(paused.pendingToolCalls, messagesRef.current, paused.fullSystemPrompt, signal)
+    );
+  };
   
-  // Helper function to process a list of tool calls
+  // Run every tool call from one assistant message and return their result messages in order.
+  // Consecutive read-only tools run in parallel; anything that mutates files runs alone.
+  const executeToolBatch = async (toolCalls: PendingToolCall[], signal: AbortSignal) => {
+    const resultMessages: ToolResultMessage[] = [];
+
+    const executeToolCall = async (toolCall: PendingToolCall): Promise<ToolResult> => {
+      // Remember what the model asked for before trying it, so a failed edit can be reapplied
+      if (REAPPLYABLE_TOOLS.has(toolCall.name) && toolCall.input?.file_path) {
+        proposedEdits.current[toolCall.input.file_path] = {
+          toolName: toolCall.name,
+          input: toolCall.input,
+          baseContent: filesRef.current[toolCall.input.file_path]?.code ?? null,
+          timestamp: new Date(),
+        };
+      }
+
+      try {
+        return await handleToolCall(toolCall.name, toolCall.input, toolCall.id);
+      } catch (error: any) {
+        console.error(`Error executing tool ${toolCall.name}:`, error);
+        return {
+          status: "error" as const,
+          error: `Failed to execute tool: ${error.message || String(error)}`,
+        };
+      }
+    };
+
+    let i = 0;
+    while (i < toolCalls.length) {
+      signal.throwIfAborted();
+
+      let end = i + 1;
+      if (READ_ONLY_TOOLS.has(toolCalls[i].name)) {
+        while (end < toolCalls.length && READ_ONLY_TOOLS.has(toolCalls[end].name)) {
+          end++;
+        }
+      }
+
+      const group = toolCalls.slice(i, end);
+      const groupResults = await Promise.all(group.map(executeToolCall));
+      const groupMessages = group.map((toolCall, index): ToolResultMessage => ({
+        id: generateId(),
+        type: "tool_result",
+        timestamp: new Date(),
+        toolCallId: toolCall.id,
+        result: withEditHunks(groupResults[index]),
+      }));
+      setMessages((prev) => [...prev, ...groupMessages]);
+      resultMessages.push(...groupMessages);
+
+      i = end;
+    }
+
+    return resultMessages;
+  };
+  
+  // Run the tool loop: execute each assistant message's tool calls as a batch, send all
+  // of their results back in one user message, and repeat until the model stops calling tools
   const processToolCalls = async (
-    toolCalls: Array<{id: string, name: string, input: any}>,
+    toolCalls: PendingToolCall[],
     previousMessages: Message[],
-    fullSystemPrompt: string
+    fullSystemPrompt: SystemPrompt,
+    signal: AbortSignal
   ) => {
     let updatedMessages = [...previousMessages];
-    
-    for (const toolCall of toolCalls) {
-      // Create a tool call message
-      const toolCallMessage: ToolCallMessage = {
+    let pending = toolCalls;
+    const budget = turnBudget.current;
+
+    while (pending.length > 0) {
+      signal.throwIfAborted();
+
+      if (budget.toolRounds >= budget.maxToolRounds) {
+        pauseTurn({ reason: "max_tool_rounds" }, pending, fullSystemPrompt);
+        return;
+      }
+
+      if (Date.now() > budget.deadline) {
+        pauseTurn({ reason: "max_duration" }, pending, fullSystemPrompt);
+        return;
+      }
+
+      if (spendingCapReached()) {
+        pauseTurn({ reason: "spending_cap" }, pending, fullSystemPrompt);
+        return;
+      }
+
+      // Check the whole batch for a repeated call before running any of it
+      let { lastToolCallKey, identicalToolCalls } = budget;
+      let repeated: PendingToolCall | undefined;
+      for (const toolCall of pending) {
+        const toolCallKey = `${toolCall.name}:${JSON.stringify(toolCall.input)}`;
+        identicalToolCalls = toolCallKey === lastToolCallKey ? identicalToolCalls + 1 : 1;
+        lastToolCallKey = toolCallKey;
+        if (identicalToolCalls > limits.maxIdenticalToolCalls) {
+          repeated = toolCall;
+          break;
+        }
+      }
+      budget.identicalToolCalls = identicalToolCalls;
+      if (repeated) {
+        pauseTurn({ reason: "repeated_tool_call", toolName: repeated.name }, pending, fullSystemPrompt);
+        return;
+      }
+      budget.lastToolCallKey = lastToolCallKey;
+      budget.toolRounds++;
+
+      // Add every tool call from this assistant message before running any of them
+      const toolCallMessages: ToolCallMessage[] = pending.map((toolCall) => ({
         id: generateId(),
         type: "tool_call",
         timestamp: new Date(),
@@ -671,98 +1689,38 @@ ${currentFileContent}
           name: toolCall.name,
           arguments: toolCall.input,
         },
-      };
+        ...(toolCall.thinking ? { thinking: toolCall.thinking } : {}),
+      }));
+      setMessages((prev) => [...prev, ...toolCallMessages]);
+      updatedMessages = [...updatedMessages, ...toolCallMessages];
 
-      // Add the tool call message to the UI messages
-      setMessages((prev) => [...prev, toolCallMessage]);
-      updatedMessages = [...updatedMessages, toolCallMessage];
+      const resultMessages = await executeToolBatch(pending, signal);
+      updatedMessages = withBackgroundJobOutput([...updatedMessages, ...resultMessages]);
+      setMessages((prev) => withBackgroundJobOutput(prev));
 
-      try {
-        // Execute the tool
-        const toolResult = await handleToolCall(
-          toolCall.name,
-          toolCall.input
-        );
-        
-        // Create the tool result message - removing the redundant status property
-        const toolResultMessage: ToolResultMessage = {
-          id: generateId(),
-          type: "tool_result",
-          timestamp: new Date(),
-          toolCallId: toolCall.id,
-          result: toolResult
-        };
-        
-        // Add the tool result message to the UI
-        setMessages((prev) => [...prev, toolResultMessage]);
-        updatedMessages = [...updatedMessages, toolResultMessage];
-        
-        // Get response after tool execution
-        const formattedMessagesForAPI = formatMessagesForAPI(updatedMessages);
-        const responseAfterTool = await callLLM(
-          formattedMessagesForAPI,
-          fullSystemPrompt,
-          tools
-        );
-        
-        // Extract response text and any new tool calls
-        let responseText = "";
-        const newToolCalls = [];
-        
-        if (responseAfterTool && responseAfterTool.content) {
-          for (const item of responseAfterTool.content) {
-            if ((item as any).type === "text") {
-              responseText = (item as any).text || "";
-            } else if ((item as any).type === "tool_use") {
-              const newToolCall = {
-                id: (item as any).id || `tool-${generateId()}`,
-                name: (item as any).name || (item as any).tool_use?.name,
-                input: (item as any).input || (item as any).tool_use?.input || {},
-              };
-              newToolCalls.push(newToolCall);
-            }
-          }
-        }
-        
-        if (responseText) {
-          // Add response message
-          const responseMessage: AssistantTextMessage = {
-            id: generateId(),
-            type: "assistant_message",
-            content: responseText,
-            timestamp: new Date(),
-          };
-          
-          setMessages((prev) => [...prev, responseMessage]);
-          updatedMessages = [...updatedMessages, responseMessage];
-        }
-        
-        // Recursively process any new tool calls
-        if (newToolCalls.length > 0) {
-          await processToolCalls(newToolCalls, updatedMessages, fullSystemPrompt);
-        }
-      } catch (error: any) {
-        console.error(`Error executing tool ${toolCall.name}:`, error);
+      // Get response after tool execution
+      updatedMessages = await compactConversation(updatedMessages, fullSystemPrompt, signal);
+      const responseAfterTools = await requestLLM(
+        formatMessagesForAPI(updatedMessages),
+        fullSystemPrompt,
+        signal
+      );
+      const { text, toolCalls: nextToolCalls, thinking } = parseLLMResponse(responseAfterTools);
 
-        // Create an error result
-        const errorResult: ToolResult = {
-          status: "error" as const,
-          error: `Failed to execute tool: ${error.message || String(error)}`,
-        };
-        
-        // Create an error message
-        const toolResultMessage: ToolResultMessage = {
+      if (text) {
+        const responseMessage: AssistantTextMessage = {
           id: generateId(),
-          type: "tool_result",
+          type: "assistant_message",
+          content: text,
           timestamp: new Date(),
-          toolCallId: toolCall.id,
-          result: errorResult
+          ...(thinking ? { thinking } : {}),
         };
-        
-        // Add the error message to the UI
-        setMessages((prev) => [...prev, toolResultMessage]);
-        updatedMessages = [...updatedMessages, toolResultMessage];
+
+        setMessages((prev) => [...prev, responseMessage]);
+        updatedMessages = [...updatedMessages, responseMessage];
       }
+
+      pending = nextToolCalls;
     }
   };
 
@@ -770,13 +1728,335 @@ ${currentFileContent}
     // If there's already a conversation in progress, queue the message
     if (conversationInProgress.current) {
       messageQueue.current.push(userMessage);
+      syncQueuedMessages();
       return;
     }
     
     await processUserMessage(userMessage);
   };
 
-  const handleToolCall = async (name: string, input: any) => {
+  // Abort the in-flight turn; queued messages are dropped along with it
+  const stop = () => {
+    messageQueue.current = [];
+    syncQueuedMessages();
+    abortControllerRef.current?.abort();
+    cancelPendingReviews();
+    cancelPendingApprovals();
+  };
+
+  // Record the user's decision on one hunk, or on the whole file when no hunk is given.
+  // The tool call resumes once every hunk has been decided.
+  const decideReview = (toolCallId: string, decision: ReviewDecision, hunkIndex?: number) => {
+    const waiter = reviewWaiters.current[toolCallId];
+    if (!waiter) return;
+
+    const { review } = waiter;
+    const indexes = hunkIndex !== undefined
+      ? [hunkIndex]
+      : review.hunks.length > 0 ? review.hunks.map((_, i) => i) : [0];
+    const decisions = { ...review.decisions };
+    for (const index of indexes) {
+      decisions[index] = decision;
+    }
+
+    const decidedAll = review.hunks.length > 0
+      ? review.hunks.every((_, i) => decisions[i] !== undefined)
+      : decisions[0] !== undefined;
+    if (decidedAll) {
+      delete reviewWaiters.current[toolCallId];
+      waiter.resolve(decisions);
+    } else {
+      waiter.review = { ...review, decisions };
+    }
+    syncPendingReviews();
+  };
+
+  const cancelPendingReviews = () => {
+    const waiters = Object.values(reviewWaiters.current);
+    reviewWaiters.current = {};
+    syncPendingReviews();
+    waiters.forEach(({ resolve }) => resolve(null));
+  };
+
+  const decideApproval = (toolCallId: string, approved: boolean) => {
+    const waiter = approvalWaiters.current[toolCallId];
+    if (!waiter) return;
+
+    delete approvalWaiters.current[toolCallId];
+    syncPendingApprovals();
+    waiter.resolve(approved);
+  };
+
+  const cancelPendingApprovals = () => {
+    const waiters = Object.values(approvalWaiters.current);
+    approvalWaiters.current = {};
+    syncPendingApprovals();
+    waiters.forEach(({ resolve }) => resolve(null));
+  };
+
+  // Wait for the user to allow or decline a command; null if the turn was stopped first
+  const requestApproval = async (approval: PendingApproval): Promise<boolean | null> => {
+    const startedAt = Date.now();
+    const approved = await new Promise<boolean | null>((resolve) => {
+      approvalWaiters.current[approval.toolCallId] = { approval, resolve };
+      syncPendingApprovals();
+    });
+    // Time spent waiting on the user does not count against the turn
+    turnBudget.current.deadline += Date.now() - startedAt;
+    return approved;
+  };
+
+  // In review mode, hold a file tool call until the user decides, then apply only what they accepted
+  const reviewToolCall = async (name: string, input: any, toolCallId: string): Promise<ToolResult> => {
+    const { file_path, content } = input;
+    const oldContent: string | null = filesRef.current[file_path]?.code ?? null;
+
+    // Edits and deletions of missing files fail the same way with or without review
+    if (name !== "create_file" && oldContent === null) {
+      return handleToolCall(name, input);
+    }
+
+    const newContent: string | null = name === "delete_file" ? null : content;
+    const hunks = newContent === null ? [] : createHunks(oldContent ?? "", newContent);
+    if (newContent !== null && hunks.length === 0) {
+      return handleToolCall(name, input);
+    }
+
+    const startedAt = Date.now();
+    const decisions = await new Promise<Record<number, ReviewDecision> | null>((resolve) => {
+      reviewWaiters.current[toolCallId] = {
+        review: { toolCallId, toolName: name, filePath: file_path, oldContent, newContent, hunks, decisions: {} },
+        resolve,
+      };
+      syncPendingReviews();
+    });
+    // Time spent waiting on the user does not count against the turn
+    turnBudget.current.deadline += Date.now() - startedAt;
+
+    if (!decisions) {
+      return { status: "error", error: `The review of ${file_path} was cancelled, so the change was not applied` };
+    }
+
+    if (name === "delete_file") {
+      if (decisions[0] === "rejected") {
+        return { status: "error", error: `The user rejected deleting ${file_path}. The file was kept.` };
+      }
+      return { ...(await handleToolCall(name, input)), review: { accepted: 1, rejected: 0 } };
+    }
+
+    const acceptedHunks = hunks.filter((_, i) => decisions[i] === "accepted");
+    const review = { accepted: acceptedHunks.length, rejected: hunks.length - acceptedHunks.length };
+    if (acceptedHunks.length === 0) {
+      return {
+        status: "error",
+        error: `The user rejected every change to ${file_path}. The file was ${oldContent === null ? "not created" : "not modified"}.`,
+        review,
+      };
+    }
+
+    const acceptedContent = applyHunks(oldContent ?? "", acceptedHunks);
+    const result = await handleToolCall(name, { ...input, content: acceptedContent });
+    return {
+      ...result,
+      message: review.rejected > 0
+        ? `${result.message}. The user accepted ${review.accepted} of ${hunks.length} changes; the rest were not applied, so the saved content differs from what you proposed.`
+        : `${result.message}. The user accepted all changes.`,
+      review,
+    };
+  };
+
+  // Write file changes to Sandpack and keep the git working copy in step. Callers that
+  // write again before Sandpack re-renders pass the files as they left them in `current`.
+  const applyFileChanges = async (
+    changes: FileChanges,
+    toolName = "restore",
+    current: FileSnapshot = snapshotFiles(filesRef.current)
+  ) => {
+    for (const [filePath, content] of Object.entries(changes)) {
+      recordAgentEdit(filePath, current[filePath] ?? null, content, toolName);
+      if (content === null) {
+        if (filePath in current) {
+          sandpack.deleteFile(filePath, true);
+        }
+      } else if (filePath in current) {
+        sandpack.updateFile(filePath, content, true);
+      } else {
+        sandpack.addFile(filePath, content, true);
+      }
+      trackFileChange(filePath, content);
+    }
+
+    await delay(50);
+    await sandpack.runSandpack();
+    await syncGitWorkingCopy(toolName === "restore" ? "restoring a checkpoint" : toolName);
+  };
+
+  // Run a command line from run_terminal_cmd against the current files
+  const runCommand = async (command: string, signal?: AbortSignal): Promise<ShellResult> => {
+    let current = snapshotFiles(filesRef.current);
+    return runShellCommand(command, {
+      files: current,
+      applyChanges: async (changes) => {
+        await applyFileChanges(changes, "run_terminal_cmd", current);
+        current = { ...current };
+        for (const [filePath, content] of Object.entries(changes)) {
+          if (content === null) delete current[filePath];
+          else current[filePath] = content;
+        }
+      },
+      git,
+      runTests: runTests && (async () => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`the test run did not finish within ${TEST_RUN_TIMEOUT_MS / 1000} seconds`)),
+            TEST_RUN_TIMEOUT_MS
+          );
+        });
+        try {
+          const results = await Promise.race([runTests(), timeout]);
+          setTestResults(results);
+          return results;
+        } finally {
+          clearTimeout(timer);
+        }
+      }),
+      signal,
+    });
+  };
+
+  // The tool result for a command that ran, whatever its exit code
+  const toCommandResult = (command: string, { exitCode, stdout, stderr, changes, previous }: ShellResult): ToolResult => {
+    const changedFiles = Object.keys(changes);
+    return {
+      status: "success",
+      message: `Exited with code ${exitCode}${changedFiles.length > 0 ? `, changing ${changedFiles.length} file${changedFiles.length === 1 ? "" : "s"}` : ""}`,
+      command,
+      exitCode,
+      output: stdout,
+      ...(stderr ? { stderr } : {}),
+      ...(changedFiles.length > 0 ? { changedFiles, previousFiles: previous } : {}),
+    };
+  };
+
+  // Replace the placeholder results of background commands that have since finished
+  const withBackgroundJobOutput = (messagesToUpdate: Message[]): Message[] =>
+    messagesToUpdate.map((msg) =>
+      msg.type === "tool_result" && msg.result.background === "running" && backgroundJobs.current[msg.toolCallId]
+        ? { ...msg, result: backgroundJobs.current[msg.toolCallId] }
+        : msg
+    );
+
+  // Start a command without waiting for it; its output replaces the tool result when it ends
+  const startBackgroundJob = (toolCallId: string, command: string) => {
+    runCommand(command)
+      .then((result) => toCommandResult(command, result))
+      .catch((error): ToolResult => ({
+        status: "error",
+        error: `Command failed: ${error instanceof Error ? error.message : String(error)}`,
+        command,
+      }))
+      .then((result) => {
+        backgroundJobs.current[toolCallId] = { ...result, background: "finished" };
+        setMessages((prev) => withBackgroundJobOutput(prev));
+      });
+  };
+
+  const setReverted = (toolResultIds: string[], reverted: boolean) => {
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.type === "tool_result" && toolResultIds.includes(msg.id)
+          ? { ...msg, result: { ...msg.result, reverted } }
+          : msg
+      )
+    );
+  };
+
+  // Apply an undo and remember what it replaced so it can be redone
+  const undoFileChanges = async (changes: FileChanges, toolResultIds: string[]) => {
+    if (conversationInProgress.current || Object.keys(changes).length === 0) return;
+
+    const redoChanges: FileChanges = Object.fromEntries(
+      Object.keys(changes).map((filePath) => [filePath, filesRef.current[filePath]?.code ?? null])
+    );
+    await applyFileChanges(changes);
+    setReverted(toolResultIds, true);
+    redoStack.current.push({ changes: redoChanges, toolResultIds });
+    setCanRedo(true);
+  };
+
+  // Successful file tool calls after a message, with their results, in order
+  const getFileToolCalls = (fromIndex: number, toIndex: number = messages.length) => {
+    const resultsById: Record<string, ToolResultMessage> = {};
+    for (const msg of messages) {
+      if (msg.type === "tool_result") {
+        resultsById[msg.toolCallId] = msg;
+      }
+    }
+
+    return messages
+      .slice(fromIndex, toIndex)
+      .filter((msg): msg is ToolCallMessage => msg.type === "tool_call" && FILE_MUTATING_TOOLS.has(msg.toolCall.name))
+      .map((call) => ({ call, result: resultsById[call.toolCall.id] }))
+      .filter((pair) => pair.result && pair.result.result.status === "success" && !pair.result.result.reverted);
+  };
+
+  // Undo one edit_file, create_file or delete_file call, restoring the file as it was before it
+  const revertToolCall = (toolCallId: string) => {
+    const index = messages.findIndex((msg) => msg.type === "tool_call" && msg.toolCall.id === toolCallId);
+    const [pair] = index === -1 ? [] : getFileToolCalls(index, index + 1);
+    const changes = pair && getToolCallRevert(pair.call.toolCall, pair.result.result);
+    if (!changes) return Promise.resolve();
+
+    return undoFileChanges(changes, [pair.result.id]);
+  };
+
+  // Undo every file change the agent made while answering a user message
+  const revertTurn = (messageId: string) => {
+    const start = messages.findIndex((msg) => msg.id === messageId);
+    if (start === -1) return Promise.resolve();
+    const nextUserMessage = messages.findIndex((msg, i) => i > start && msg.type === "user_message");
+    const pairs = getFileToolCalls(start, nextUserMessage === -1 ? messages.length : nextUserMessage);
+
+    // Walk backwards so each file ends up as it was before its first change
+    const changes: FileChanges = {};
+    for (const { call, result } of [...pairs].reverse()) {
+      Object.assign(changes, getToolCallRevert(call.toolCall, result.result));
+    }
+
+    return undoFileChanges(changes, pairs.map(({ result }) => result.id));
+  };
+
+  // Restore every file to the checkpoint taken before a user message
+  const restoreCheckpoint = (messageId: string) => {
+    const checkpoint = checkpoints.find((c) => c.messageId === messageId);
+    const start = messages.findIndex((msg) => msg.id === messageId);
+    if (!checkpoint || start === -1) return Promise.resolve();
+
+    const changes = getRestoreChanges(snapshotFiles(files), checkpoint.files);
+    const toolResultIds = getFileToolCalls(start).map(({ result }) => result.id);
+    return undoFileChanges(changes, toolResultIds);
+  };
+
+  // Reapply the most recently undone changes
+  const redo = async () => {
+    const entry = redoStack.current[redoStack.current.length - 1];
+    if (!entry || conversationInProgress.current) return;
+
+    redoStack.current.pop();
+    setCanRedo(redoStack.current.length > 0);
+    await applyFileChanges(entry.changes);
+    setReverted(entry.toolResultIds, false);
+  };
+
+  // The tool call id is only passed for calls from the model, so reviewed changes apply directly
+  const handleToolCall = async (name: string, input: any, toolCallId?: string): Promise<ToolResult> => {
+    const files = filesRef.current;
+
+    if (reviewMode && toolCallId && REVIEWED_TOOLS.has(name)) {
+      return reviewToolCall(name, input, toolCallId);
+    }
+
     try {
       switch (name) {
         case "edit_file": {
@@ -785,33 +2065,17 @@ ${currentFileContent}
             // Get the old content for diff view
             const oldContent = files[file_path].code;
 
+            // Journal first, so the editor recognizes the write as the agent's
+            recordAgentEdit(file_path, oldContent, content, "edit_file");
+
             // Update the file
             sandpack.updateFile(file_path, content, true);
             await delay(50); // Add delay
             await sandpack.runSandpack();
 
             // Track the file as changed in window.changedFilePaths for gitFs synchronization
-            if (typeof window !== 'undefined') {
-              if (!window.changedFilePaths) {
-                window.changedFilePaths = new Set();
-              }
-              window.changedFilePaths.add(file_path);
-              
-              if (!window.sandpackFiles) {
-                window.sandpackFiles = {};
-              }
-              window.sandpackFiles[file_path] = content;
-              
-              // Trigger synchronization with gitFs if available
-              try {
-                if (window.gitFs && typeof window.synchronizeFiles === 'function') {
-                  await window.synchronizeFiles();
-                  console.log(`Synchronized ${file_path} to gitFs after AI edit`);
-                }
-              } catch (syncError) {
-                console.warn(`Failed to sync ${file_path} to gitFs:`, syncError);
-              }
-            }
+            trackFileChange(file_path, content);
+            await syncGitWorkingCopy(`AI edit of ${file_path}`);
 
             return {
               status: "success" as const,
@@ -823,39 +2087,61 @@ ${currentFileContent}
             throw new Error(`File ${file_path} does not exist`);
           }
         }
+        // Targeted edits compute the new content and save it through edit_file,
+        // so review mode and undo treat them like any other edit
+        case "str_replace": {
+          const { file_path, old_str, new_str, replace_all } = input;
+          if (!files[file_path]) {
+            throw new Error(`File ${file_path} does not exist`);
+          }
+
+          const edit = replaceUnique(files[file_path].code, old_str, new_str ?? "", !!replace_all);
+          const result = await handleToolCall("edit_file", { file_path, content: edit.content }, toolCallId);
+          return result.status === "success"
+            ? { ...result, message: `${result.message}: replaced ${edit.replacements} occurrence${edit.replacements === 1 ? "" : "s"} (line ${edit.lines.join(", ")})` }
+            : result;
+        }
+        case "insert_at_line": {
+          const { file_path, line, text } = input;
+          if (!files[file_path]) {
+            throw new Error(`File ${file_path} does not exist`);
+          }
+
+          const content = insertAtLine(files[file_path].code, Number(line), text ?? "");
+          const result = await handleToolCall("edit_file", { file_path, content }, toolCallId);
+          return result.status === "success"
+            ? { ...result, message: `${result.message}: inserted before line ${line}` }
+            : result;
+        }
+        case "apply_patch": {
+          const { file_path, patch } = input;
+          if (!files[file_path]) {
+            throw new Error(`File ${file_path} does not exist`);
+          }
+
+          const patched = applyPatch(files[file_path].code, patch ?? "");
+          const result = await handleToolCall("edit_file", { file_path, content: patched.content }, toolCallId);
+          return result.status === "success"
+            ? { ...result, message: `${result.message}. ${patched.notes.join(". ")}` }
+            : result;
+        }
         case "create_file": {
           const { file_path, content } = input;
+          const previousContent = files[file_path]?.code;
+          recordAgentEdit(file_path, previousContent ?? null, content, "create_file");
           sandpack.addFile(file_path, content, true);
           await delay(50); // Add delay
           await sandpack.runSandpack();
 
           // Track the file as changed in window.changedFilePaths for gitFs synchronization
-          if (typeof window !== 'undefined') {
-            if (!window.changedFilePaths) {
-              window.changedFilePaths = new Set();
-            }
-            window.changedFilePaths.add(file_path);
-            
-            if (!window.sandpackFiles) {
-              window.sandpackFiles = {};
-            }
-            window.sandpackFiles[file_path] = content;
-            
-            // Trigger synchronization with gitFs if available
-            try {
-              if (window.gitFs && typeof window.synchronizeFiles === 'function') {
-                await window.synchronizeFiles();
-                console.log(`Synchronized ${file_path} to gitFs after AI create`);
-              }
-            } catch (syncError) {
-              console.warn(`Failed to sync ${file_path} to gitFs:`, syncError);
-            }
-          }
+          trackFileChange(file_path, content);
+          await syncGitWorkingCopy(`AI create of ${file_path}`);
           
           return {
             status: "success" as const,
             message: `File ${file_path} created successfully`,
             content,
+            ...(previousContent !== undefined ? { previousContent } : {}),
           };
         }
         case "delete_file": {
@@ -865,10 +2151,15 @@ ${currentFileContent}
             const deletedContent = files[file_path].code;
 
             // Delete the file
+            recordAgentEdit(file_path, deletedContent, null, "delete_file");
             sandpack.deleteFile(file_path, true);
             await delay(50); // Add delay
             await sandpack.runSandpack();
 
+            // Track the deletion so gitFs removes the file too
+            trackFileChange(file_path, null);
+            await syncGitWorkingCopy(`AI delete of ${file_path}`);
+
             return {
               status: "success" as const,
               message: `File ${file_path} deleted successfully`,
@@ -920,194 +2211,353 @@ ${currentFileContent}
         }
         case "list_dir": {
           const { relative_workspace_path } = input;
-          // Filter files based on the path prefix
-          const normalizedPath = relative_workspace_path.endsWith('/') 
-            ? relative_workspace_path 
-            : `${relative_workspace_path}/`;
-          
-          const filesInDir = Object.keys(files)
-            .filter(filePath => {
-              if (normalizedPath === "/") {
-                return true; // List all files for root
-              }
-              return filePath.startsWith(normalizedPath) || filePath === relative_workspace_path;
-            })
+          // Accept "src", "./src" and "/src" alike; "", "." and "/" are the root
+          const directory = toRelativePath(relative_workspace_path ?? "");
+          const prefix = directory ? `/${directory}/` : "/";
+          const visible = searchableFiles(files);
+          const inDirectory = (filePath: string) => filePath.startsWith(prefix) || filePath === `/${directory}`;
+
+          const filesInDir = Object.keys(visible)
+            .filter(inDirectory)
             .map(filePath => {
-              // Get just the filename or immediate subdirectory
-              const relativePath = filePath === relative_workspace_path 
-                ? filePath 
-                : filePath.slice(normalizedPath.length);
-              
-              // Filter out deeper nested paths
-              const firstSegment = relativePath.split('/')[0];
-              return firstSegment;
+              if (filePath === `/${directory}`) return filePath;
+              // Just the immediate file or subdirectory name
+              return filePath.slice(prefix.length).split('/')[0];
             })
             .filter((value, index, self) => self.indexOf(value) === index); // Remove duplicates
+          const ignoredCount = Object.keys(files).filter(filePath => inDirectory(filePath) && !(filePath in visible)).length;
           
           return {
             status: "success" as const,
             message: `Directory ${relative_workspace_path} listed successfully`,
             files: filesInDir,
             path: relative_workspace_path,
+            ...(ignoredCount > 0 ? { note: `${ignoredCount} file${ignoredCount === 1 ? " is" : "s are"} excluded by .gitignore and not listed` } : {}),
           };
         }
         case "grep_search": {
-          const { query, include_pattern, exclude_pattern, case_sensitive } = input;
+          const { query, include_pattern, exclude_pattern, case_sensitive, literal, context_lines_before, context_lines_after } = input;
+          if (typeof query !== "string" || !query) {
+            return { status: "error" as const, error: "query must be a non-empty string" };
+          }
           
-          // Create a RegExp for the search
-          const regexFlags = case_sensitive ? 'g' : 'gi';
-          const searchRegex = new RegExp(query, regexFlags);
+          const included = createGlobMatcher(include_pattern ?? [], { matchParents: true });
+          const excluded = exclude_pattern ? createGlobMatcher(exclude_pattern, { matchParents: true }) : () => false;
+          const searchable = Object.entries(searchableFiles(files)).filter(([filePath]) => included(filePath) && !excluded(filePath));
           
-          const results: Array<{file: string, matches: Array<{line: number, content: string, matches: Array<{text: string, index: number | undefined}>}>}> = [];
-          const searchableFiles = Object.keys(files).filter(filePath => {
-            // Apply include pattern if specified
-            if (include_pattern && !filePath.match(include_pattern)) {
-              return false;
-            }
-            // Apply exclude pattern if specified
-            if (exclude_pattern && filePath.match(exclude_pattern)) {
-              return false;
-            }
-            return true;
+          const { results, totalMatches, truncated, mode, notes } = grepFiles(Object.fromEntries(searchable), query, {
+            caseSensitive: case_sensitive,
+            literal,
+            contextBefore: context_lines_before,
+            contextAfter: context_lines_after,
           });
           
-          for (const filePath of searchableFiles) {
-            const fileContent = files[filePath].code;
-            const fileLines = fileContent.split('\n');
-            
-            let matches: Array<{line: number, content: string, matches: Array<{text: string, index: number | undefined}>}> = [];
-            fileLines.forEach((line, lineIndex) => {
-              if (line.match(searchRegex)) {
-                matches.push({
-                  line: lineIndex + 1, // Convert to 1-indexed
-                  content: line,
-                  matches: [...line.matchAll(searchRegex)].map(match => ({
-                    text: match[0],
-                    index: match.index,
-                  })),
-                });
-              }
-            });
-            
-            if (matches.length > 0) {
-              results.push({
-                file: filePath,
-                matches,
-              });
-            }
-          }
-          
           return {
             status: "success" as const,
-            message: `Found ${results.length} files with matches for "${query}"`,
+            message: `Found ${totalMatches}${truncated ? "+" : ""} matches in ${results.length} files for ${mode === "literal" ? "the text" : "the pattern"} "${query}"`,
             query,
             results,
+            ...(truncated ? { truncated } : {}),
+            ...(notes.length > 0 ? { notes } : {}),
           };
         }
         case "file_search": {
           const { query } = input;
           
-          // Simple fuzzy search implementation
-          const matchingFiles = Object.keys(files).filter(filePath => {
-            return filePath.toLowerCase().includes(query.toLowerCase());
-          });
+          const filePaths = Object.keys(searchableFiles(files));
+          
+          // A glob such as "**/*.test.{ts,tsx}" is matched as one, anything else is ranked by fuzzy match
+          const matchingFiles = hasGlobSyntax(query)
+            ? filePaths.filter(createGlobMatcher(query)).sort()
+            : fuzzySearch(query, filePaths, { limit: filePaths.length }).map(({ item }) => item);
           
           return {
             status: "success" as const,
-            message: `Found ${matchingFiles.length} files matching "${query}"`,
+            message: matchingFiles.length > MAX_FILE_SEARCH_RESULTS
+              ? `Found ${matchingFiles.length} files matching "${query}"; showing the best ${MAX_FILE_SEARCH_RESULTS}`
+              : `Found ${matchingFiles.length} files matching "${query}"`,
             query,
-            files: matchingFiles,
+            files: matchingFiles.slice(0, MAX_FILE_SEARCH_RESULTS),
           };
         }
         case "codebase_search": {
           const { query, target_directories } = input;
-          
-          // Filter files by target directories if provided
-          let searchableFiles = Object.keys(files);
-          if (target_directories && target_directories.length > 0) {
-            searchableFiles = searchableFiles.filter(filePath => {
-              return target_directories.some((dir: string) => filePath.startsWith(dir));
-            });
+          if (typeof query !== "string" || !query.trim()) {
+            return { status: "error" as const, error: "query must be a non-empty string" };
           }
-          
-          // Simple implementation - search file contents for the query
-          const results: Array<{file: string, matchCount: number, snippets: Array<{lineNumber: number, context: string, contextRange: {start: number, end: number}}>}> = [];
-          for (const filePath of searchableFiles) {
-            const fileContent = files[filePath].code;
-            if (fileContent.toLowerCase().includes(query.toLowerCase())) {
-              // Find relevant snippets around the matches
-              const fileLines = fileContent.split('\n');
-              const matchingLines: Array<{lineNumber: number, context: string, contextRange: {start: number, end: number}}> = [];
-              
-              fileLines.forEach((line, lineIndex) => {
-                if (line.toLowerCase().includes(query.toLowerCase())) {
-                  // Get context (a few lines before and after)
-                  const contextStart = Math.max(0, lineIndex - 2);
-                  const contextEnd = Math.min(fileLines.length - 1, lineIndex + 2);
-                  
-                  matchingLines.push({
-                    lineNumber: lineIndex + 1, // 1-indexed
-                    context: fileLines.slice(contextStart, contextEnd + 1).join('\n'),
-                    contextRange: { start: contextStart + 1, end: contextEnd + 1 },
-                  });
-                }
-              });
-              
-              if (matchingLines.length > 0) {
-                results.push({
-                  file: filePath,
-                  matchCount: matchingLines.length,
-                  snippets: matchingLines,
-                });
-              }
-            }
+
+          if (!codeIndex.current) {
+            codeIndex.current = new CodebaseIndex();
           }
-          
+          const index = codeIndex.current;
+          index.setEmbeddingProvider(embeddingProvider);
+          // Only files changed since the last search are chunked again
+          index.update(searchableFiles(files));
+
+          const filter = target_directories && target_directories.length > 0
+            ? createGlobMatcher(target_directories, { matchParents: true })
+            : undefined;
+          const signal = abortControllerRef.current?.signal;
+
+          let results;
+          let note: string | undefined;
+          try {
+            results = await index.search(query, { limit: 10, filter, signal });
+          } catch (error) {
+            if (signal?.aborted) throw error;
+            results = await index.search(query, { limit: 10, filter, keywordsOnly: true });
+            note = `Embeddings failed (${error instanceof Error ? error.message : String(error)}), so results are ranked by keywords only.`;
+          }
+
           return {
             status: "success" as const,
-            message: `Found ${results.length} files with content matching "${query}"`,
+            message: results.length > 0
+              ? `Found ${results.length} code chunks relevant to "${query}", best first`
+              : `No code matched "${query}"`,
             query,
+            ranking: index.semantic && !note ? "keywords and embeddings" : "keywords",
             results,
+            ...(note ? { note } : {}),
           };
         }
-        case "reapply": {
-          // This is just a mock implementation
-          // In a real scenario, this would need to somehow reapply the last edit
-          const { target_file } = input;
-          
+        case "find_definition": {
+          const { symbol, file_path } = input;
+          if (typeof symbol !== "string" || !symbol.trim()) {
+            return { status: "error" as const, error: "symbol must be a non-empty string" };
+          }
+          symbolIndex.current.update(searchableFiles(files));
+
+          const definitions = symbolIndex.current.findDefinition(symbol.trim(), file_path);
+          if (definitions.length === 0) {
+            return {
+              status: "error" as const,
+              error: `No declaration of ${symbol} was found${file_path ? ` from ${file_path}` : ""}. It may come from a package, or be declared in a way the index does not recognize; try grep_search.`,
+              symbol,
+            };
+          }
+
           return {
             status: "success" as const,
-            message: `Attempted to reapply last edit to ${target_file}`,
-            file: target_file,
+            message: `Found ${definitions.length} declaration${definitions.length === 1 ? "" : "s"} of ${symbol}`,
+            symbol,
+            definitions: definitions.slice(0, MAX_DEFINITIONS_WITH_CODE).map((definition) => {
+              const lines = files[definition.filePath].code.split("\n").slice(definition.line - 1, definition.endLine);
+              return {
+                ...definition,
+                code: lines.slice(0, MAX_DEFINITION_LINES).join("\n"),
+                ...(lines.length > MAX_DEFINITION_LINES ? { codeTruncated: `Showing ${MAX_DEFINITION_LINES} of ${lines.length} lines; use read_file for the rest` } : {}),
+              };
+            }),
+            ...(definitions.length > MAX_DEFINITIONS_WITH_CODE ? { otherDefinitions: definitions.slice(MAX_DEFINITIONS_WITH_CODE) } : {}),
           };
         }
-        // Tools that require external services - mock responses
-        case "run_terminal_cmd":
+        case "find_references": {
+          const { symbol, file_path } = input;
+          if (typeof symbol !== "string" || !symbol.trim()) {
+            return { status: "error" as const, error: "symbol must be a non-empty string" };
+          }
+          symbolIndex.current.update(searchableFiles(files));
+
+          const { definitions, references, scoped, truncated } = symbolIndex.current.findReferences(symbol.trim(), file_path);
           return {
             status: "success" as const,
-            message: "Terminal command execution simulated",
-            command: input.command,
-            output: `[Simulated output] Command execution for: ${input.command}`,
+            message: references.length > 0
+              ? `Found ${references.length}${truncated ? "+" : ""} references to ${symbol}${scoped ? "" : " by name"}`
+              : `No references to ${symbol} were found`,
+            symbol,
+            scoped,
+            definitions: definitions.map(({ filePath, line, kind, name }) => ({ filePath, line, kind, name })),
+            references,
+            ...(!scoped && definitions.length > 1
+              ? { note: "The name has several declarations, so every use of the name is listed; pass file_path to pick one" }
+              : truncated
+                ? { note: "Results were truncated; pass file_path or a more specific name to narrow them" }
+                : {}),
           };
-        case "web_search":
+        }
+        case "list_symbols": {
+          const { file_path } = input;
+          if (!files[file_path]) {
+            throw new Error(`File ${file_path} does not exist`);
+          }
+          symbolIndex.current.update(searchableFiles(files));
+
+          const fileSymbols = symbolIndex.current.listSymbols(file_path);
+          if (!fileSymbols) {
+            return { status: "error" as const, error: `${file_path} is not a JavaScript or TypeScript file` };
+          }
           return {
             status: "success" as const,
-            message: "Web search simulated",
-            searchTerm: input.search_term,
-            results: [
-              { title: "Simulated search result 1", url: "https://example.com/1", snippet: "This is a simulated search result." },
-              { title: "Simulated search result 2", url: "https://example.com/2", snippet: "Another simulated search result." },
-            ],
+            message: `${file_path} declares ${fileSymbols.symbols.length} symbols and has ${fileSymbols.imports.length} imports`,
+            ...fileSymbols,
           };
-        case "diff_history":
+        }
+        case "import_graph": {
+          const { file_path } = input;
+          if (!files[file_path]) {
+            throw new Error(`File ${file_path} does not exist`);
+          }
+          symbolIndex.current.update(searchableFiles(files));
+
+          const graph = symbolIndex.current.importGraph(file_path);
+          if (!graph) {
+            return { status: "error" as const, error: `${file_path} is not a JavaScript or TypeScript file` };
+          }
           return {
             status: "success" as const,
-            message: "Diff history retrieved (simulated)",
-            changes: [
-              { file: "example.js", additions: 5, deletions: 2, timestamp: new Date().toISOString() },
-              { file: "README.md", additions: 1, deletions: 0, timestamp: new Date().toISOString() },
-            ],
+            message: `${file_path} imports ${graph.imports.length} modules and is imported by ${graph.importedBy.length} files`,
+            ...graph,
           };
+        }
+        case "reapply": {
+          const { target_file } = input;
+          const edit = proposedEdits.current[target_file];
+          if (!edit) {
+            throw new Error(`No edit to ${target_file} has been proposed in this session, so there is nothing to reapply`);
+          }
+          if (!files[target_file] && edit.toolName !== "edit_file") {
+            throw new Error(`File ${target_file} does not exist`);
+          }
+
+          const currentContent = files[target_file]?.code ?? "";
+          const signal = abortControllerRef.current?.signal;
+          let content: string | undefined;
+          let method = "merge";
+          if (applyLLM) {
+            try {
+              const data = await applyLLM(
+                buildApplyRequest(target_file, currentContent, edit),
+                APPLY_SYSTEM_PROMPT,
+                [],
+                undefined,
+                signal
+              );
+              recordUsage(data);
+              content = extractAppliedFile(parseLLMResponse(data).text);
+              method = "apply model";
+            } catch (error) {
+              if (signal?.aborted) throw error;
+              console.warn(`Apply model failed for ${target_file}, falling back to merge:`, error);
+            }
+          }
+          // A turn stopped while the apply model ran must not write its result
+          signal?.throwIfAborted();
+          if (content === undefined) {
+            content = mergeProposedEdit(currentContent, edit);
+          }
+
+          const diff = formatUnifiedDiff(target_file, currentContent, content);
+          if (!diff) {
+            return {
+              status: "success" as const,
+              message: `The last ${edit.toolName} edit to ${target_file} is already reflected in the file; nothing changed`,
+              file: target_file,
+              diff,
+            };
+          }
+
+          const result = files[target_file]
+            ? await handleToolCall("edit_file", { file_path: target_file, content }, toolCallId)
+            : await handleToolCall("create_file", { file_path: target_file, content }, toolCallId);
+          return result.status === "success"
+            ? { ...result, message: `Reapplied the last ${edit.toolName} edit to ${target_file} using the ${method}`, file: target_file, diff }
+            : result;
+        }
+        case "run_terminal_cmd": {
+          const { command, explanation, is_background, require_user_approval } = input;
+          if (typeof command !== "string" || !command.trim()) {
+            return { status: "error" as const, error: "command must be a non-empty string" };
+          }
+
+          // In review mode every change to a file is the user's call, so commands that can
+          // change files wait for approval whatever the model asked for
+          if ((require_user_approval || (reviewMode && mayChangeFiles(command))) && toolCallId) {
+            const approved = await requestApproval({ toolCallId, command, explanation });
+            if (approved === null) {
+              return { status: "error" as const, error: `The approval prompt was cancelled, so \`${command}\` did not run`, command };
+            }
+            if (!approved) {
+              return { status: "error" as const, error: `The user declined to run \`${command}\``, command };
+            }
+          }
+
+          if (is_background && toolCallId) {
+            startBackgroundJob(toolCallId, command);
+            return {
+              status: "success" as const,
+              message: "Started in the background. The output will replace this result when the command finishes.",
+              command,
+              background: "running" as const,
+            };
+          }
+
+          return toCommandResult(command, await runCommand(command, abortControllerRef.current?.signal));
+        }
+        case "web_search": {
+          const { search_term } = input;
+          if (!searchProvider) {
+            return {
+              status: "error" as const,
+              error: "Web search is not configured, so no search was made. Answer from what you know and say that it could not be checked.",
+              searchTerm: search_term,
+            };
+          }
+          if (typeof search_term !== "string" || !search_term.trim()) {
+            return { status: "error" as const, error: "search_term must be a non-empty string" };
+          }
+
+          try {
+            const { results, notes } = await searchProvider.search(search_term, {
+              limit: 5,
+              signal: abortControllerRef.current?.signal,
+            });
+            return {
+              status: "success" as const,
+              message: results.length > 0
+                ? `${results.length} result${results.length === 1 ? "" : "s"} from ${searchProvider.label}`
+                : `No results from ${searchProvider.label}`,
+              searchTerm: search_term,
+              provider: searchProvider.label,
+              results,
+              ...(notes ? { notes } : {}),
+            };
+          } catch (error) {
+            if (abortControllerRef.current?.signal.aborted) throw error;
+            return {
+              status: "error" as const,
+              error: `Search with ${searchProvider.label} failed: ${error instanceof Error ? error.message : String(error)}`,
+              searchTerm: search_term,
+            };
+          }
+        }
+        case "diff_history": {
+          const { file_path, limit, include_git_log } = input;
+          const changes = summarizeJournal({ filePath: file_path, limit: limit || 20 });
+
+          let commits: GitLogEntry[] | undefined;
+          let gitLogError: string | undefined;
+          if (include_git_log) {
+            if (!git) {
+              gitLogError = "No git repository is connected";
+            } else {
+              try {
+                commits = await git.log(limit || 20);
+              } catch (error) {
+                gitLogError = `Could not read the git log: ${error instanceof Error ? error.message : String(error)}`;
+              }
+            }
+          }
+
+          return {
+            status: "success" as const,
+            message: changes.length > 0
+              ? `${changes.length} file change${changes.length === 1 ? "" : "s"} in this session${file_path ? ` to ${file_path}` : ""}`
+              : `No file changes in this session${file_path ? ` to ${file_path}` : ""}`,
+            changes,
+            ...(commits ? { commits } : {}),
+            ...(gitLogError ? { gitLogError } : {}),
+          };
+        }
         case "get_test_results": {
           const { file_path, status } = input;
           
@@ -1212,13 +2662,26 @@ ${currentFileContent}
       },
     ]);
     
-    // Clear any pending message queue
+    // Clear any pending message queue and paused run
     messageQueue.current = [];
+    syncQueuedMessages();
+    pausedTurn.current = null;
+    setCanContinue(false);
+    setCheckpoints([]);
+    redoStack.current = [];
+    setCanRedo(false);
+    backgroundJobs.current = {};
+    currentTurnId.current = null;
+    updateTurnUsage([]);
   };
 
   // Save messages to localStorage for persistence
   useEffect(() => {
-    if (messages.length > 0) {
+    // Skip saving on every stream delta; the completed response is saved instead
+    const isStreaming = messages.some(
+      (msg) => (msg.type === "assistant_message" || msg.type === "tool_call") && msg.isStreaming
+    );
+    if (messages.length > 0 && !isStreaming) {
       try {
         // Convert Date objects to strings before saving
         const serializedMessages = messages.map(msg => ({
@@ -1232,8 +2695,35 @@ ${currentFileContent}
     }
   }, [messages]);
   
+  // Save checkpoints alongside the messages they belong to, once the saved ones are loaded.
+  // When they do not fit in storage, the oldest are left out until the rest do.
+  useEffect(() => {
+    if (!checkpointsLoaded.current) return;
+    for (let skipped = 0; skipped <= checkpoints.length; skipped++) {
+      try {
+        localStorage.setItem('sandpackAgentCheckpoints', JSON.stringify(encodeCheckpoints(checkpoints.slice(skipped))));
+        setUnsavedCheckpoints(skipped);
+        return;
+      } catch (error) {
+        console.error('Error saving checkpoints to localStorage:', error);
+      }
+    }
+    setUnsavedCheckpoints(checkpoints.length);
+  }, [checkpoints]);
+
+  // Save token usage with the session it belongs to
+  useEffect(() => {
+    if (!checkpointsLoaded.current) return;
+    try {
+      localStorage.setItem('sandpackAgentUsage', JSON.stringify(turnUsage));
+    } catch (error) {
+      console.error('Error saving token usage to localStorage:', error);
+    }
+  }, [turnUsage]);
+
   // Restore messages from localStorage on initial load
   useEffect(() => {
+    checkpointsLoaded.current = true;
     try {
       const savedMessages = localStorage.getItem('sandpackAgentMessages');
       if (savedMessages) {
@@ -1242,8 +2732,22 @@ ${currentFileContent}
         const messagesWithDates = parsedMessages.map((msg: any) => ({
           ...msg,
           timestamp: new Date(msg.timestamp),
+          // Background commands do not survive a reload
+          ...(msg.type === "tool_result" && msg.result?.background === "running"
+            ? { result: { ...msg.result, status: "error", error: "The page was reloaded before this background command finished", background: "finished" } }
+            : {}),
         }));
         setMessages(messagesWithDates);
+
+        const savedCheckpoints = localStorage.getItem('sandpackAgentCheckpoints');
+        if (savedCheckpoints) {
+          setCheckpoints(decodeCheckpoints(JSON.parse(savedCheckpoints)));
+        }
+
+        const savedUsage = localStorage.getItem('sandpackAgentUsage');
+        if (savedUsage) {
+          updateTurnUsage(JSON.parse(savedUsage));
+        }
       } else {
         // Initialize with welcome message if no saved messages
         clearMessages();
@@ -1281,6 +2785,7 @@ ${currentFileContent}
       // You could send an automatic message about failing tests
       const failMessage = "Test results have been updated. There are failing tests.";
       messageQueue.current.push(failMessage);
+      syncQueuedMessages();
     }
   };
 
@@ -1288,7 +2793,24 @@ ${currentFileContent}
     messages,
     setMessages,
     sendMessage,
+    stop,
+    continueRun,
+    canContinue,
+    queuedMessages,
+    pendingReviews,
+    decideReview,
+    pendingApprovals,
+    decideApproval,
+    checkpoints,
+    unsavedCheckpoints,
+    revertToolCall,
+    revertTurn,
+    restoreCheckpoint,
+    redo,
+    canRedo,
     clearMessages,
+    turnUsage,
+    sessionUsage: sumUsage(turnUsage),
     isLoading: loading,
     messagesEndRef,
     testResults,
@@ -3,7 +3,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth, encryptData, decryptData  } from '@/contexts/AuthContext';
 
 // These are the types of secrets we'll store
-export type SecretType = 'anthropic_api_key' | 'github_api_key';
+export type SecretType = 'anthropic_api_key' | 'github_api_key' | 'openai_api_key';
 
 /**
  * Saves an API key securely to local storage by encrypting it with the provided key
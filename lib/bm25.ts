@@ -0,0 +1,124 @@
+// Common English words that carry no weight in a search
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "how", "i", "in", "is", "it",
+  "of", "on", "or", "our", "should", "the", "this", "to", "we", "what", "when", "where", "which", "who", "why",
+  "with", "you",
+]);
+
+/**
+ * Split text into lowercase search terms. camelCase, PascalCase and snake_case words are
+ * also split into their parts, so "useEffect" matches both "useeffect" and "effect".
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+    const lower = word.toLowerCase();
+    const parts = word
+      .split(/_+|\$/)
+      .flatMap((part) => part.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) ?? [])
+      .map((part) => part.toLowerCase());
+
+    if (!STOP_WORDS.has(lower)) terms.push(lower);
+    if (parts.length > 1) {
+      terms.push(...parts.filter((part) => part.length > 1 && !STOP_WORDS.has(part)));
+    }
+  }
+  return terms;
+}
+
+interface IndexedDocument<T> {
+  value: T;
+  length: number;
+  termCounts: Map<string, number>;
+}
+
+export interface BM25Match<T> {
+  value: T;
+  score: number;
+}
+
+/**
+ * Okapi BM25 ranking over documents that can be added and removed one at a time, so an
+ * index can follow file changes without being rebuilt.
+ */
+export class BM25Index<T> {
+  private documents = new Map<string, IndexedDocument<T>>();
+  // How many documents contain each term
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(private k1 = 1.2, private b = 0.75) {}
+
+  get size() {
+    return this.documents.size;
+  }
+
+  has(id: string) {
+    return this.documents.has(id);
+  }
+
+  add(id: string, text: string, value: T) {
+    this.remove(id);
+
+    const terms = tokenize(text);
+    const termCounts = new Map<string, number>();
+    for (const term of terms) {
+      termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+    }
+    for (const term of termCounts.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+    }
+
+    this.documents.set(id, { value, length: terms.length, termCounts });
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string) {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const term of document.termCounts.keys()) {
+      const count = (this.documentFrequency.get(term) ?? 1) - 1;
+      if (count === 0) this.documentFrequency.delete(term);
+      else this.documentFrequency.set(term, count);
+    }
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * Documents matching any term of the query, best first. Only documents with a positive
+   * score are returned.
+   */
+  search(query: string, limit = 10, filter?: (value: T) => boolean): BM25Match<T>[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.documents.size === 0) return [];
+
+    const count = this.documents.size;
+    const averageLength = this.totalLength / count || 1;
+    const idf = new Map(
+      queryTerms.map((term) => {
+        const frequency = this.documentFrequency.get(term) ?? 0;
+        return [term, Math.log(1 + (count - frequency + 0.5) / (frequency + 0.5))];
+      })
+    );
+
+    const matches: BM25Match<T>[] = [];
+    for (const document of this.documents.values()) {
+      if (filter && !filter(document.value)) continue;
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = document.termCounts.get(term);
+        if (!frequency) continue;
+        const norm = this.k1 * (1 - this.b + (this.b * document.length) / averageLength);
+        score += idf.get(term)! * ((frequency * (this.k1 + 1)) / (frequency + norm));
+      }
+      if (score > 0) {
+        matches.push({ value: document.value, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,124 @@
+import type { ToolCall, ToolResult } from "@/hooks/useSandpackAgent";
+
+// File path to code, as captured before an agent turn
+export type FileSnapshot = Record<string, string>;
+
+// File path to the content it should have, or null to delete it
+export type FileChanges = Record<string, string | null>;
+
+// The tools whose results carry enough to undo them
+export const FILE_MUTATING_TOOLS = new Set([
+  "edit_file",
+  "str_replace",
+  "insert_at_line",
+  "apply_patch",
+  "create_file",
+  "delete_file",
+  "reapply",
+  "run_terminal_cmd",
+]);
+
+/**
+ * Capture the code of every Sandpack file.
+ */
+export function snapshotFiles(files: Record<string, { code: string }>): FileSnapshot {
+  return Object.fromEntries(
+    Object.entries(files).map(([path, file]) => [path, file.code])
+  );
+}
+
+/**
+ * The changes that turn `current` into `target`: files missing from the target are
+ * deleted and every file whose code differs is rewritten.
+ */
+export function getRestoreChanges(current: FileSnapshot, target: FileSnapshot): FileChanges {
+  const changes: FileChanges = {};
+  for (const path of Object.keys(current)) {
+    if (!(path in target)) {
+      changes[path] = null;
+    }
+  }
+  for (const [path, code] of Object.entries(target)) {
+    if (current[path] !== code) {
+      changes[path] = code;
+    }
+  }
+  return changes;
+}
+
+/**
+ * The change that undoes one successful file tool call, or null if it cannot be undone.
+ */
+export function getToolCallRevert(toolCall: ToolCall, result: ToolResult): FileChanges | null {
+  if (result.status !== "success" || result.reverted) {
+    return null;
+  }
+
+  // reapply names its file target_file
+  const filePath = toolCall.arguments.file_path ?? toolCall.arguments.target_file;
+  switch (toolCall.name) {
+    case "edit_file":
+    case "str_replace":
+    case "insert_at_line":
+    case "apply_patch":
+      return typeof result.oldContent === "string" ? { [filePath]: result.oldContent } : null;
+    case "create_file":
+      // Creating over an existing file records what it replaced
+      return { [filePath]: typeof result.previousContent === "string" ? result.previousContent : null };
+    case "delete_file":
+      return typeof result.deletedContent === "string" ? { [filePath]: result.deletedContent } : null;
+    case "reapply":
+      // A reapply saves through edit_file, or create_file when the file was missing
+      if (typeof result.oldContent === "string") return { [filePath]: result.oldContent };
+      return typeof result.content === "string" ? { [filePath]: null } : null;
+    case "run_terminal_cmd":
+      // Only commands that changed files, like rm or mv, have something to undo
+      return result.previousFiles && Object.keys(result.previousFiles).length > 0 ? { ...result.previousFiles } : null;
+    default:
+      return null;
+  }
+}
+
+// A saved checkpoint: the first holds every file, each later one only what changed since the one before
+export interface StoredCheckpoint {
+  id: string;
+  messageId: string;
+  timestamp: string;
+  files?: FileSnapshot;
+  changes?: FileChanges;
+}
+
+/**
+ * Store checkpoints as differences from the one before, so files no turn touched are
+ * saved once rather than with every checkpoint.
+ */
+export function encodeCheckpoints(
+  checkpoints: Array<{ id: string; messageId: string; timestamp: Date; files: FileSnapshot }>
+): StoredCheckpoint[] {
+  return checkpoints.map((checkpoint, index) => {
+    const { files, timestamp, ...rest } = checkpoint;
+    return index === 0
+      ? { ...rest, timestamp: timestamp.toISOString(), files }
+      : { ...rest, timestamp: timestamp.toISOString(), changes: getRestoreChanges(checkpoints[index - 1].files, files) };
+  });
+}
+
+/**
+ * Rebuild the full snapshots of stored checkpoints. Entries saved with every file, as
+ * older versions saved all of them, are taken as they are.
+ */
+export function decodeCheckpoints(stored: StoredCheckpoint[]) {
+  let previous: FileSnapshot = {};
+  return stored.map(({ files, changes, timestamp, ...rest }) => {
+    const snapshot: FileSnapshot = files ? { ...files } : { ...previous };
+    for (const [path, code] of Object.entries(changes ?? {})) {
+      if (code === null) {
+        delete snapshot[path];
+      } else {
+        snapshot[path] = code;
+      }
+    }
+    previous = snapshot;
+    return { ...rest, timestamp: new Date(timestamp), files: snapshot };
+  });
+}
@@ -0,0 +1,344 @@
+import { BM25Index } from "@/lib/bm25";
+
+// A piece of a file that is indexed and returned as one search result
+export interface CodeChunk {
+  id: string;
+  filePath: string;
+  // 1-based and inclusive
+  startLine: number;
+  endLine: number;
+  // The function, class, component or test the chunk holds, when it holds one
+  symbol?: string;
+  text: string;
+}
+
+// Turns text into vectors for semantic ranking, e.g. an embeddings API
+export interface EmbeddingProvider {
+  id: string;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export interface CodeSearchResult {
+  file: string;
+  lineRange: { start: number; end: number };
+  symbol?: string;
+  // Combined relevance, higher is better
+  score: number;
+  bm25: number;
+  // Cosine similarity to the query, when embeddings were used
+  similarity?: number;
+  content: string;
+}
+
+export interface CodeSearchOptions {
+  limit?: number;
+  filter?: (filePath: string) => boolean;
+  // Rank by keywords only even when there is an embedding provider
+  keywordsOnly?: boolean;
+  signal?: AbortSignal;
+}
+
+const CODE_FILE = /\.(?:[cm]?[jt]sx?)$/;
+// Files that are large and never what a search is looking for
+const SKIPPED_FILE = /(?:^|\/)(?:node_modules\/|package-lock\.json$|yarn\.lock$|pnpm-lock\.yaml$)/;
+const MAX_FILE_LENGTH = 500_000;
+
+// Chunks longer than this are split at inner declarations, then into windows
+const MAX_CHUNK_LINES = 80;
+const MIN_CHUNK_LINES = 3;
+const TEXT_WINDOW_LINES = 40;
+
+// Characters of a chunk sent for embedding
+const MAX_EMBEDDING_TEXT = 2000;
+const EMBEDDING_BATCH_SIZE = 64;
+// How far down each ranking reciprocal rank fusion looks before results stop counting
+const RRF_K = 60;
+
+// A top-level declaration: functions, classes, types and variables, exported or not
+const DECLARATION =
+  /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:async\s+)?(?:function\*?\s*([\w$]*)|(?:abstract\s+)?class\s+([\w$]+)|interface\s+([\w$]+)|type\s+([\w$]+)|(?:const\s+)?enum\s+([\w$]+)|(?:const|let|var)\s+([\w$]+))/;
+// describe / it / test blocks in test files
+const TEST_BLOCK = /^\s*(?:describe|it|test)(?:\.\w+)?\(\s*(['"`])(.+?)\1/;
+// Declarations inside a long function or class: methods, handlers and nested functions
+const INNER_DECLARATION =
+  /^\s+(?:(?:export|static|public|private|protected|readonly|async|get|set)\s+)*(?:function\s+([\w$]+)|(?:const|let)\s+([\w$]+)\s*=\s*(?:async\s*)?(?:\([^)]*\)|[\w$]+)\s*=>|(?:const|let)\s+([\w$]+)\s*=\s*(?:use\w+|React\.\w+)\(|([\w$]+)\s*\([^)]*\)\s*(?::\s*[^{]+)?\{\s*$)/;
+const LEADING_COMMENT = /^\s*(?:\/\/|\/\*|\*|@\w)/;
+const CONTROL_KEYWORDS = new Set(["if", "for", "while", "switch", "catch", "return", "function"]);
+
+// FNV-1a, to tell whether a chunk's text changed
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// Move a boundary up over the comments and decorators that belong to the declaration
+function includeLeadingComments(lines: string[], start: number, floor: number): number {
+  while (start > floor && LEADING_COMMENT.test(lines[start - 1])) start--;
+  return start;
+}
+
+interface LineRange {
+  start: number;
+  // Exclusive
+  end: number;
+  symbol?: string;
+}
+
+// Consecutive windows of at most `size` lines
+function windows(range: LineRange, size: number): LineRange[] {
+  const result: LineRange[] = [];
+  for (let start = range.start; start < range.end; start += size) {
+    result.push({ start, end: Math.min(range.end, start + size), symbol: range.symbol });
+  }
+  return result;
+}
+
+// Split an oversized declaration at the declarations inside it, naming parts Outer.inner
+function splitLongRange(lines: string[], range: LineRange): LineRange[] {
+  if (range.end - range.start <= MAX_CHUNK_LINES) return [range];
+
+  // Only the shallowest inner declarations, so a method's own locals do not split it
+  const inner: Array<{ line: number; indent: number; name: string }> = [];
+  for (let i = range.start + 1; i < range.end; i++) {
+    const match = lines[i].match(INNER_DECLARATION);
+    const name = match && (match[1] || match[2] || match[3] || match[4]);
+    if (name && !CONTROL_KEYWORDS.has(name)) {
+      inner.push({ line: i, indent: lines[i].search(/\S/), name });
+    }
+  }
+  const minIndent = Math.min(...inner.map((declaration) => declaration.indent));
+  const boundaries = inner.filter((declaration) => declaration.indent === minIndent);
+  if (boundaries.length === 0) return windows(range, MAX_CHUNK_LINES);
+
+  const parts: LineRange[] = [];
+  let start = range.start;
+  let symbol = range.symbol;
+  for (const boundary of boundaries) {
+    const end = includeLeadingComments(lines, boundary.line, start + 1);
+    if (end > start) parts.push({ start, end, symbol });
+    start = end;
+    symbol = range.symbol ? `${range.symbol}.${boundary.name}` : boundary.name;
+  }
+  parts.push({ start, end: range.end, symbol });
+
+  return parts.flatMap((part) => (part.end - part.start > MAX_CHUNK_LINES ? windows(part, MAX_CHUNK_LINES) : [part]));
+}
+
+/**
+ * Split a file into chunks for indexing. JavaScript and TypeScript files are cut at
+ * top-level declarations and test blocks, with long ones cut again at their methods or
+ * inner functions; other files are cut into fixed windows of lines.
+ */
+export function chunkFile(filePath: string, content: string): CodeChunk[] {
+  const lines = content.split("\n");
+  let ranges: LineRange[];
+
+  if (!CODE_FILE.test(filePath)) {
+    ranges = windows({ start: 0, end: lines.length }, TEXT_WINDOW_LINES);
+  } else {
+    const boundaries: Array<{ line: number; symbol?: string }> = [];
+    lines.forEach((line, index) => {
+      const declaration = line.match(DECLARATION);
+      if (declaration) {
+        const symbol = declaration.slice(1).find((name) => name !== undefined);
+        boundaries.push({ line: index, symbol: symbol || (/^export\s+default/.test(line) ? "default" : undefined) });
+        return;
+      }
+      const testBlock = line.match(TEST_BLOCK);
+      if (testBlock && !/^\s/.test(line)) {
+        boundaries.push({ line: index, symbol: testBlock[2] });
+      }
+    });
+
+    ranges = [];
+    let start = 0;
+    let symbol: string | undefined;
+    for (const boundary of boundaries) {
+      const end = includeLeadingComments(lines, boundary.line, start);
+      if (end > start) ranges.push({ start, end, symbol });
+      start = end;
+      symbol = boundary.symbol;
+    }
+    ranges.push({ start, end: lines.length, symbol });
+
+    // Fold runs of tiny declarations, like consecutive imports or constants, into the chunk before
+    ranges = ranges.reduce<LineRange[]>((merged, range) => {
+      const previous = merged[merged.length - 1];
+      if (previous && range.end - range.start < MIN_CHUNK_LINES && previous.end - previous.start < MAX_CHUNK_LINES) {
+        previous.end = range.end;
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+    ranges = ranges.flatMap((range) => splitLongRange(lines, range));
+  }
+
+  return ranges
+    .map((range) => {
+      // Trim blank lines so line ranges point at code
+      let { start, end } = range;
+      while (start < end && !lines[start].trim()) start++;
+      while (end > start && !lines[end - 1].trim()) end--;
+      return { ...range, start, end };
+    })
+    .filter((range) => range.end > range.start)
+    .map((range) => {
+      const text = lines.slice(range.start, range.end).join("\n");
+      return {
+        id: `${filePath}:${range.start + 1}-${range.end}:${hashText(text)}`,
+        filePath,
+        startLine: range.start + 1,
+        endLine: range.end,
+        ...(range.symbol ? { symbol: range.symbol } : {}),
+        text,
+      };
+    });
+}
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const embeddingText = (chunk: CodeChunk) =>
+  `${chunk.filePath}${chunk.symbol ? ` ${chunk.symbol}` : ""}\n${chunk.text}`.slice(0, MAX_EMBEDDING_TEXT);
+
+/**
+ * A search index over the project files. BM25 ranks every search; with an embedding
+ * provider, chunks are also ranked by similarity to the query and the two rankings are
+ * fused. `update` re-chunks only the files whose content changed, and embeddings are
+ * kept per chunk text, so unchanged code is never embedded twice.
+ */
+export class CodebaseIndex {
+  private bm25 = new BM25Index<CodeChunk>();
+  // Content each file was indexed with, and the ids of its chunks
+  private indexedFiles = new Map<string, { content: string; chunks: CodeChunk[] }>();
+  // Embeddings by chunk text hash
+  private embeddings = new Map<string, number[]>();
+  private embeddingProvider?: EmbeddingProvider;
+
+  constructor(embeddingProvider?: EmbeddingProvider) {
+    this.embeddingProvider = embeddingProvider;
+  }
+
+  setEmbeddingProvider(embeddingProvider?: EmbeddingProvider) {
+    if (embeddingProvider?.id !== this.embeddingProvider?.id) {
+      this.embeddings.clear();
+    }
+    this.embeddingProvider = embeddingProvider;
+  }
+
+  get semantic() {
+    return !!this.embeddingProvider;
+  }
+
+  /**
+   * Bring the index in line with `files`, returning how many files were re-indexed.
+   */
+  update(files: Record<string, string>): { indexed: number; removed: number } {
+    let indexed = 0;
+    let removed = 0;
+
+    for (const [filePath, entry] of this.indexedFiles) {
+      if (!(filePath in files) || SKIPPED_FILE.test(filePath)) {
+        entry.chunks.forEach((chunk) => this.bm25.remove(chunk.id));
+        this.indexedFiles.delete(filePath);
+        removed++;
+      }
+    }
+
+    for (const [filePath, content] of Object.entries(files)) {
+      if (SKIPPED_FILE.test(filePath) || content.length > MAX_FILE_LENGTH) continue;
+      const entry = this.indexedFiles.get(filePath);
+      if (entry?.content === content) continue;
+
+      entry?.chunks.forEach((chunk) => this.bm25.remove(chunk.id));
+      const chunks = chunkFile(filePath, content);
+      for (const chunk of chunks) {
+        // The path and symbol name are searchable along with the code
+        this.bm25.add(chunk.id, `${filePath} ${chunk.symbol ?? ""} ${chunk.text}`, chunk);
+      }
+      this.indexedFiles.set(filePath, { content, chunks });
+      indexed++;
+    }
+
+    return { indexed, removed };
+  }
+
+  async search(query: string, { limit = 10, filter, keywordsOnly, signal }: CodeSearchOptions = {}): Promise<CodeSearchResult[]> {
+    const chunkFilter = filter && ((chunk: CodeChunk) => filter(chunk.filePath));
+    const keywordMatches = this.bm25.search(query, this.bm25.size, chunkFilter);
+    const bm25Scores = new Map(keywordMatches.map(({ value, score }) => [value.id, score]));
+
+    if (!this.embeddingProvider || keywordsOnly) {
+      return keywordMatches.slice(0, limit).map(({ value, score }) => this.toResult(value, score, score));
+    }
+
+    const similarities = await this.rankBySimilarity(query, chunkFilter, signal);
+    // Reciprocal rank fusion: a chunk ranked high by either method ranks high overall
+    const fused = new Map<string, { chunk: CodeChunk; score: number }>();
+    const addRanking = (ranking: CodeChunk[]) =>
+      ranking.forEach((chunk, rank) => {
+        const entry = fused.get(chunk.id) ?? { chunk, score: 0 };
+        entry.score += 1 / (RRF_K + rank + 1);
+        fused.set(chunk.id, entry);
+      });
+    addRanking(keywordMatches.map(({ value }) => value));
+    addRanking(similarities.map(({ chunk }) => chunk));
+
+    const similarityById = new Map(similarities.map(({ chunk, similarity }) => [chunk.id, similarity]));
+    return [...fused.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk, score }) => this.toResult(chunk, score, bm25Scores.get(chunk.id) ?? 0, similarityById.get(chunk.id)));
+  }
+
+  // Every chunk by cosine similarity to the query, embedding the chunks that have no vector yet
+  private async rankBySimilarity(query: string, filter: ((chunk: CodeChunk) => boolean) | undefined, signal?: AbortSignal) {
+    const provider = this.embeddingProvider!;
+    const chunks = [...this.indexedFiles.values()]
+      .flatMap((entry) => entry.chunks)
+      .filter((chunk) => !filter || filter(chunk));
+
+    const missing = chunks.filter((chunk) => !this.embeddings.has(this.textHash(chunk)));
+    for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const vectors = await provider.embed(batch.map(embeddingText), signal);
+      batch.forEach((chunk, j) => this.embeddings.set(this.textHash(chunk), vectors[j]));
+    }
+
+    const [queryVector] = await provider.embed([query], signal);
+    return chunks
+      .map((chunk) => ({ chunk, similarity: cosineSimilarity(queryVector, this.embeddings.get(this.textHash(chunk)) ?? []) }))
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  private textHash(chunk: CodeChunk) {
+    return chunk.id.slice(chunk.id.lastIndexOf(":") + 1);
+  }
+
+  private toResult(chunk: CodeChunk, score: number, bm25: number, similarity?: number): CodeSearchResult {
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    return {
+      file: chunk.filePath,
+      lineRange: { start: chunk.startLine, end: chunk.endLine },
+      ...(chunk.symbol ? { symbol: chunk.symbol } : {}),
+      score: round(score),
+      bm25: round(bm25),
+      ...(similarity !== undefined ? { similarity: round(similarity) } : {}),
+      content: chunk.text,
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import type {
+  AnthropicMessage,
+  AssistantTextMessage,
+  CompactionNotice,
+  Message,
+  SystemPrompt,
+  ToolCall,
+  ToolResult,
+  UserTextMessage,
+} from "@/hooks/useSandpackAgent";
+import { systemPromptText } from "@/lib/providers/openai";
+import { serializeToolResult } from "@/lib/toolResults";
+
+// Requests are compacted once their estimated size passes this many tokens
+export const DEFAULT_CONTEXT_BUDGET = 150000;
+
+// A rough average for code and English; estimates only need to be close, not exact
+const CHARS_PER_TOKEN = 4;
+
+// Compaction keeps at most this share of the budget as recent messages, summarizing the rest
+const RECENT_MESSAGES_SHARE = 0.3;
+
+// The most recent tool results keep their file contents when older ones are pruned
+const RECENT_RESULTS_WITH_CONTENTS = 6;
+
+// Each tool result is cut to this many characters in the transcript that gets summarized
+const SUMMARY_RESULT_CHARS = 1500;
+
+export const SUMMARY_SYSTEM_PROMPT = `You summarize a conversation between a user and a coding agent working on a web project, so the agent can continue the work without the full transcript.
+
+Write a concise summary that keeps:
+- what the user asked for, in their words where it matters
+- decisions made and constraints the user gave
+- the files created, edited or deleted, and what changed in them
+- errors met and how they were resolved
+- what was still in progress or left to do
+
+Leave out file contents the agent can read again. Reply with the summary only.`;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// The estimated size of one API message, including the JSON structure of its blocks
+export const estimateMessageTokens = (message: AnthropicMessage) => estimateTokens(JSON.stringify(message.content));
+
+/**
+ * The estimated size of a request: its messages, the system prompt and the tool definitions.
+ */
+export function estimateRequestTokens(messages: AnthropicMessage[], systemPrompt: SystemPrompt, tools: any[] = []): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0) +
+    estimateTokens(systemPromptText(systemPrompt)) +
+    estimateTokens(JSON.stringify(tools));
+}
+
+// Compaction notices are for the user; they are not part of the transcript
+const isNotice = (message: Message) =>
+  message.type === "assistant_message" && (!!message.limit || !!message.compaction);
+
+// The API role a message is sent as, or null for notices
+const roleOf = (message: Message): AnthropicMessage["role"] | null => {
+  if (isNotice(message)) return null;
+  return message.type === "user_message" || message.type === "tool_result" ? "user" : "assistant";
+};
+
+/**
+ * The most recent compaction in the conversation. Each one carries everything earlier
+ * compactions left out, so only the latest applies.
+ */
+export function latestCompaction(messages: Message[]): CompactionNotice | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.type === "assistant_message" && message.compaction) return message.compaction;
+  }
+  return undefined;
+}
+
+// A result without the file contents it carries, which go stale once the file changes
+function withoutFileContents(result: ToolResult): ToolResult {
+  const omitted = (text: string) =>
+    `[${text.split("\n").length} lines omitted to save context; read the file again if you need them]`;
+  const pruned: ToolResult = { ...result };
+  if (typeof pruned.content === "string") pruned.content = omitted(pruned.content);
+  // codebase_search results and find_definition code
+  if (Array.isArray(pruned.results)) {
+    pruned.results = pruned.results.map((item: any) =>
+      item && typeof item.content === "string" ? { ...item, content: omitted(item.content) } : item
+    );
+  }
+  if (Array.isArray(pruned.definitions)) {
+    pruned.definitions = pruned.definitions.map((item: any) =>
+      item && typeof item.code === "string" ? { ...item, code: omitted(item.code) } : item
+    );
+  }
+  return pruned;
+}
+
+/**
+ * The messages to send the model after the latest compaction: summarized messages are
+ * replaced by a message holding the summary, and pruned tool results lose their file
+ * contents. Without a compaction the messages are returned as they are.
+ */
+export function applyCompaction(messages: Message[]): Message[] {
+  const compaction = latestCompaction(messages);
+  if (!compaction) return messages;
+
+  const prunedIndex = messages.findIndex((message) => message.id === compaction.prunedThrough);
+  let result = messages.map((message, index) =>
+    message.type === "tool_result" && index <= prunedIndex
+      ? { ...message, result: withoutFileContents(message.result) }
+      : message
+  );
+
+  const summarizedIndex = compaction.summarizedThrough
+    ? result.findIndex((message) => message.id === compaction.summarizedThrough)
+    : -1;
+  if (compaction.summary && summarizedIndex !== -1) {
+    const summaryMessage: UserTextMessage = {
+      id: `summary-${compaction.summarizedThrough}`,
+      type: "user_message",
+      content: `<conversation_summary>\nThe earlier part of this conversation was summarized to save context:\n\n${compaction.summary}\n</conversation_summary>`,
+      timestamp: result[summarizedIndex].timestamp,
+    };
+    result = [summaryMessage, ...result.slice(summarizedIndex + 1)];
+  }
+  return result;
+}
+
+/**
+ * The tool result to prune file contents through: the last one before the most recent
+ * few, or undefined when there are no older results.
+ */
+export function findPruneBoundary(messages: Message[]): string | undefined {
+  const results = messages.filter((message) => message.type === "tool_result");
+  return results[results.length - 1 - RECENT_RESULTS_WITH_CONTENTS]?.id;
+}
+
+/**
+ * Where to split the conversation for a summary: the index of the first message to keep.
+ * The split falls where a new API message starts, so tool calls stay with their results,
+ * and keeps as many recent messages as fit in a share of the budget, but at least the
+ * last exchange. Returns -1 when nothing after `after` can be summarized.
+ */
+export function findSummaryBoundary(
+  messages: Message[],
+  after: number,
+  budget: number,
+  tokensOf: (messages: Message[]) => number
+): number {
+  const boundaries: number[] = [];
+  let previousRole: AnthropicMessage["role"] | null = null;
+  messages.forEach((message, index) => {
+    const role = roleOf(message);
+    if (!role) return;
+    // The summary is sent as a user message, so what follows it must start an assistant
+    // message or be the user's next message; a tool result would lose its tool call
+    if (index > after + 1 && previousRole !== null && message.type !== "tool_result" && (role !== previousRole || message.type === "user_message")) {
+      boundaries.push(index);
+    }
+    previousRole = role;
+  });
+  if (boundaries.length === 0) return -1;
+
+  // Keep the last exchange at least, so the request still ends with what the model must answer
+  let boundary = boundaries[boundaries.length - 1];
+  for (let i = boundaries.length - 2; i >= 0; i--) {
+    if (tokensOf(messages.slice(boundaries[i])) > budget * RECENT_MESSAGES_SHARE) break;
+    boundary = boundaries[i];
+  }
+  return boundary;
+}
+
+/**
+ * A plain text transcript of messages for the summarizer, with long tool results cut short.
+ */
+export function formatTranscript(messages: Message[]): string {
+  const toolCalls: Record<string, ToolCall> = {};
+  const lines: string[] = [];
+  for (const message of messages) {
+    switch (message.type) {
+      case "user_message":
+        lines.push(`User: ${message.content}`);
+        break;
+      case "assistant_message":
+        if (!isNotice(message)) lines.push(`Assistant: ${message.content}`);
+        break;
+      case "tool_call":
+        toolCalls[message.toolCall.id] = message.toolCall;
+        lines.push(`Tool call ${message.toolCall.name}: ${JSON.stringify(message.toolCall.arguments)}`);
+        break;
+      case "tool_result":
+        lines.push(`Tool result: ${serializeToolResult(message.result, toolCalls[message.toolCallId], SUMMARY_RESULT_CHARS)}`);
+        break;
+    }
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * A summary built without the model, for when asking it fails: what the user asked and
+ * which files the agent changed.
+ */
+export function outlineConversation(messages: Message[]): string {
+  const requests = messages
+    .filter((message): message is UserTextMessage => message.type === "user_message")
+    .map((message) => `- ${message.content.length > 300 ? `${message.content.slice(0, 300)}...` : message.content}`);
+  const changedFiles = new Set<string>();
+  for (const message of messages) {
+    if (message.type === "tool_call" && /^(edit_file|str_replace|insert_at_line|apply_patch|create_file|delete_file)$/.test(message.toolCall.name)) {
+      changedFiles.add(message.toolCall.arguments.file_path);
+    }
+  }
+  return [
+    "The user asked:",
+    ...requests,
+    ...(changedFiles.size > 0 ? ["", `Files changed: ${[...changedFiles].join(", ")}`] : []),
+  ].join("\n");
+}
+
+/**
+ * The message that marks a compaction in the chat. It is shown to the user and tells
+ * formatting what to leave out, but is never sent to the model itself.
+ */
+export function createCompactionMessage(id: string, compaction: CompactionNotice): AssistantTextMessage {
+  const parts = [
+    compaction.summarizedThrough ? "summarized earlier messages" : "",
+    compaction.prunedThrough ? "dropped file contents from older tool results" : "",
+  ].filter(Boolean);
+  return {
+    id,
+    type: "assistant_message",
+    content: `Conversation compacted to fit the context budget: ${parts.join(" and ")} (about ${compaction.tokensBefore.toLocaleString()} → ${compaction.tokensAfter.toLocaleString()} tokens).`,
+    timestamp: new Date(),
+    compaction,
+  };
+}
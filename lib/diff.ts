@@ -0,0 +1,243 @@
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  text: string;
+}
+
+export interface DiffHunk {
+  // 1-based line where the hunk starts in the old and new text
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export const splitLines = (text: string) => (text === "" ? [] : text.split("\n"));
+
+// Past this many changed lines the diff gives up on matching lines and replaces the whole
+// range: the search keeps O(D^2) state, which a rewrite of a large file would blow up
+const MAX_EDIT_DISTANCE = 1000;
+
+// Every old line removed, then every new line added
+const replaceAll = (a: string[], b: string[]): DiffLine[] => [
+  ...a.map((text): DiffLine => ({ type: "remove", text })),
+  ...b.map((text): DiffLine => ({ type: "add", text })),
+];
+
+// Myers' O(ND) shortest edit script over two line arrays
+function myersDiff(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  // v[-d..d] at the start of each round, kept to walk the path back
+  const trace: number[][] = [];
+
+  const choosesDown = (values: (k: number) => number, k: number, d: number) =>
+    k === -d || (k !== d && values(k - 1) < values(k + 1));
+
+  search: for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return replaceAll(a, b);
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = choosesDown((i) => v[offset + i], k, d) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const values = (k: number) => trace[d][k + d];
+    const k = x - y;
+    const prevK = choosesDown(values, k, d) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : values(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: "context", text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: "add", text: b[y - 1] });
+      } else {
+        result.push({ type: "remove", text: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Line diff of two texts. Common leading and trailing lines are matched up front so
+ * the edit search only runs over the part that changed.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const context = (lines: string[]) => lines.map((text): DiffLine => ({ type: "context", text }));
+  return [
+    ...context(a.slice(0, prefix)),
+    ...myersDiff(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...context(a.slice(a.length - suffix)),
+  ];
+}
+
+/**
+ * Group a diff into hunks with `context` unchanged lines around each change. Changes
+ * closer together than twice the context share a hunk, so hunks never overlap.
+ */
+export function createHunks(oldText: string, newText: string, context = 3): DiffHunk[] {
+  const lines = diffLines(oldText, newText);
+
+  // Line numbers in the old and new text where each diff line sits
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    oldAt.push(oldLine);
+    newAt.push(newLine);
+    if (line.type !== "add") oldLine++;
+    if (line.type !== "remove") newLine++;
+  }
+
+  const hunks: DiffHunk[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === "context") {
+      index++;
+      continue;
+    }
+
+    const start = Math.max(0, index - context);
+    let lastChange = index;
+    let cursor = index;
+    while (cursor < lines.length) {
+      if (lines[cursor].type !== "context") {
+        lastChange = cursor;
+        cursor++;
+        continue;
+      }
+      let runEnd = cursor;
+      while (runEnd < lines.length && lines[runEnd].type === "context") {
+        runEnd++;
+      }
+      if (runEnd === lines.length || runEnd - cursor > context * 2) break;
+      cursor = runEnd;
+    }
+
+    const end = Math.min(lines.length, lastChange + context + 1);
+    const hunkLines = lines.slice(start, end);
+    hunks.push({
+      oldStart: oldAt[start],
+      oldLines: hunkLines.filter((line) => line.type !== "add").length,
+      newStart: newAt[start],
+      newLines: hunkLines.filter((line) => line.type !== "remove").length,
+      lines: hunkLines,
+    });
+    index = end;
+  }
+
+  return hunks;
+}
+
+/**
+ * Apply hunks created from `oldText`, e.g. the subset a user accepted, and return the
+ * resulting text. Old lines outside the hunks are kept as they are.
+ */
+export function applyHunks(oldText: string, hunks: DiffHunk[]): string {
+  const oldLines = splitLines(oldText);
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (const hunk of [...hunks].sort((a, b) => a.oldStart - b.oldStart)) {
+    const start = hunk.oldStart - 1;
+    result.push(...oldLines.slice(cursor, start));
+    for (const line of hunk.lines) {
+      if (line.type !== "remove") {
+        result.push(line.text);
+      }
+    }
+    cursor = start + hunk.oldLines;
+  }
+
+  result.push(...oldLines.slice(cursor));
+  return result.join("\n");
+}
+
+// Count added and removed lines across hunks
+export function countChanges(hunks: DiffHunk[]) {
+  let additions = 0;
+  let deletions = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line.type === "add") additions++;
+      if (line.type === "remove") deletions++;
+    }
+  }
+  return { additions, deletions };
+}
+
+// The "@@ -1,3 +1,4 @@" header of a hunk; empty ranges point at the line before
+export function formatHunkHeader(hunk: DiffHunk): string {
+  const range = (start: number, count: number) =>
+    `${count === 0 ? start - 1 : start}${count === 1 ? "" : `,${count}`}`;
+  return `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@`;
+}
+
+/**
+ * Render the change from `oldText` to `newText` as a unified diff. Pass null for a
+ * side that does not exist to diff against /dev/null, and the hunks when they are
+ * already known to skip diffing again.
+ */
+export function formatUnifiedDiff(
+  filePath: string,
+  oldText: string | null,
+  newText: string | null,
+  context = 3,
+  hunks = createHunks(oldText ?? "", newText ?? "", context)
+): string {
+  if (hunks.length === 0) return "";
+
+  const name = filePath.replace(/^\//, "");
+  const output = [
+    `--- ${oldText === null ? "/dev/null" : `a/${name}`}`,
+    `+++ ${newText === null ? "/dev/null" : `b/${name}`}`,
+  ];
+  for (const hunk of hunks) {
+    output.push(formatHunkHeader(hunk));
+    for (const line of hunk.lines) {
+      const prefix = line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+      output.push(`${prefix}${line.text}`);
+    }
+  }
+  return output.join("\n");
+}
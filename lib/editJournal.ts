@@ -0,0 +1,106 @@
+import { countChanges, createHunks, formatUnifiedDiff } from "@/lib/diff";
+
+export type EditSource = "agent" | "manual";
+
+// One change to one file during this session
+export interface JournalEntry {
+  id: string;
+  timestamp: Date;
+  filePath: string;
+  source: EditSource;
+  // The agent tool that made the change, when the agent made it
+  toolName?: string;
+  // null before means the file was created, null after that it was deleted
+  before: string | null;
+  after: string | null;
+}
+
+export interface JournalSummary {
+  file: string;
+  source: EditSource;
+  tool?: string;
+  timestamp: string;
+  additions: number;
+  deletions: number;
+  diff: string;
+}
+
+// Oldest entries are dropped past this many
+const MAX_ENTRIES = 200;
+
+// Keystrokes in the same file within this window are journaled as one edit
+const MANUAL_EDIT_WINDOW_MS = 30 * 1000;
+
+// One journal per page: the agent and the code editor live in different components
+const entries: JournalEntry[] = [];
+// Content each file was last journaled with, to tell manual edits from agent writes
+const latestContent: Record<string, string | null> = {};
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Journal a change the agent made to a file.
+ */
+export function recordAgentEdit(filePath: string, before: string | null, after: string | null, toolName: string) {
+  latestContent[filePath] = after;
+  if (before === after) return;
+
+  entries.push({ id: generateId(), timestamp: new Date(), filePath, source: "agent", toolName, before, after });
+  if (entries.length > MAX_ENTRIES) {
+    entries.splice(0, entries.length - MAX_ENTRIES);
+  }
+}
+
+/**
+ * Journal an edit made in the code editor. The editor also reports the agent's own
+ * writes, which are skipped, and typing in one file is merged into a single entry.
+ */
+export function recordManualEdit(filePath: string, before: string, after: string) {
+  if (latestContent[filePath] === after) return;
+  latestContent[filePath] = after;
+
+  const last = entries[entries.length - 1];
+  if (
+    last &&
+    last.source === "manual" &&
+    last.filePath === filePath &&
+    Date.now() - last.timestamp.getTime() < MANUAL_EDIT_WINDOW_MS
+  ) {
+    last.after = after;
+    last.timestamp = new Date();
+    return;
+  }
+
+  entries.push({ id: generateId(), timestamp: new Date(), filePath, source: "manual", before, after });
+  if (entries.length > MAX_ENTRIES) {
+    entries.splice(0, entries.length - MAX_ENTRIES);
+  }
+}
+
+export function getJournal(): JournalEntry[] {
+  return [...entries];
+}
+
+/**
+ * Journal entries as sent to the model, newest first, with line counts and a unified diff.
+ */
+export function summarizeJournal({ filePath, limit = 20 }: { filePath?: string; limit?: number } = {}): JournalSummary[] {
+  return entries
+    .filter((entry) => !filePath || entry.filePath === filePath)
+    .slice(-limit)
+    .reverse()
+    .map((entry) => {
+      const hunks = createHunks(entry.before ?? "", entry.after ?? "");
+      const { additions, deletions } = countChanges(hunks);
+      return {
+        file: entry.filePath,
+        source: entry.source,
+        ...(entry.toolName ? { tool: entry.toolName } : {}),
+        timestamp: entry.timestamp.toISOString(),
+        additions,
+        deletions,
+        diff: formatUnifiedDiff(entry.filePath, entry.before, entry.after, 3, hunks),
+      };
+    })
+    .filter((summary) => summary.diff !== "");
+}
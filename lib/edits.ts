@@ -0,0 +1,261 @@
+import { splitLines } from "@/lib/diff";
+
+export class EditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EditError";
+  }
+}
+
+// 1-based line numbers where each occurrence of `search` starts
+function findOccurrences(content: string, search: string): number[] {
+  const lines: number[] = [];
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    lines.push(content.slice(0, index).split("\n").length);
+    index = content.indexOf(search, index + search.length);
+  }
+  return lines;
+}
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/**
+ * Replace `oldStr` with `newStr`. Unless `replaceAll` is set the match must be unique,
+ * so the model cannot silently edit the wrong occurrence.
+ */
+export function replaceUnique(
+  content: string,
+  oldStr: string,
+  newStr: string,
+  replaceAll = false
+): { content: string; replacements: number; lines: number[] } {
+  if (!oldStr) {
+    throw new EditError("old_str must not be empty. Use insert_at_line to add text without replacing anything.");
+  }
+
+  const lines = findOccurrences(content, oldStr);
+  if (lines.length === 0) {
+    // Point at a near miss so the model can copy the exact text
+    const wanted = normalizeWhitespace(oldStr);
+    let hint = " Read the file to check its current content.";
+    if (wanted && normalizeWhitespace(content).includes(wanted)) {
+      const firstWantedLine = normalizeWhitespace(oldStr.split("\n").find((line) => line.trim()) ?? "");
+      const near = splitLines(content).findIndex((line) => normalizeWhitespace(line) === firstWantedLine);
+      hint = ` The text exists with different whitespace${near !== -1 ? ` near line ${near + 1}` : ""}; read the file and copy old_str exactly, including indentation.`;
+    }
+    throw new EditError(`old_str was not found.${hint}`);
+  }
+
+  if (lines.length > 1 && !replaceAll) {
+    throw new EditError(
+      `old_str matches ${lines.length} places (lines ${lines.join(", ")}). Include more surrounding lines to make it unique, or set replace_all to change every occurrence.`
+    );
+  }
+
+  if (replaceAll) {
+    return { content: content.split(oldStr).join(newStr), replacements: lines.length, lines };
+  }
+
+  const index = content.indexOf(oldStr);
+  return {
+    content: content.slice(0, index) + newStr + content.slice(index + oldStr.length),
+    replacements: 1,
+    lines,
+  };
+}
+
+/**
+ * Insert `text` before the 1-based `line`; one past the last line appends. A trailing
+ * newline at the end of the file is kept in place.
+ */
+export function insertAtLine(content: string, line: number, text: string): string {
+  const endsWithNewline = content.endsWith("\n");
+  const lines = splitLines(endsWithNewline ? content.slice(0, -1) : content);
+
+  if (!Number.isInteger(line) || line < 1 || line > lines.length + 1) {
+    throw new EditError(
+      `line must be between 1 and ${lines.length + 1} (the file has ${lines.length} lines; use ${lines.length + 1} to append).`
+    );
+  }
+
+  lines.splice(line - 1, 0, ...text.replace(/\n$/, "").split("\n"));
+  return lines.join("\n") + (endsWithNewline ? "\n" : "");
+}
+
+interface PatchHunk {
+  // 1-based start in the original file, when the header gives one
+  oldStart?: number;
+  lines: Array<{ type: "context" | "add" | "remove"; text: string }>;
+}
+
+/**
+ * Parse the hunks of a unified diff for a single file. File headers are optional and
+ * hunk headers may omit line numbers ("@@ ... @@").
+ */
+export function parsePatch(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let current: PatchHunk | null = null;
+  let files = 0;
+
+  const patchLines = patch.replace(/\r\n/g, "\n").split("\n");
+  for (let i = 0; i < patchLines.length; i++) {
+    const raw = patchLines[i];
+    // A "--- " line is only a file header when "+++ " follows; otherwise it removes a line starting with "-- "
+    if (raw.startsWith("--- ") && patchLines[i + 1]?.startsWith("+++ ")) {
+      files++;
+      current = null;
+      i++;
+      continue;
+    }
+    if (!current && (raw.startsWith("diff ") || raw.startsWith("index "))) {
+      continue;
+    }
+    if (raw.startsWith("@@")) {
+      const match = raw.match(/^@@ -(\d+)(?:,(\d+))?/);
+      // An empty old range names the line it follows, so the hunk starts one line later
+      const oldStart = match ? Number(match[1]) + (match[2] === "0" ? 1 : 0) : undefined;
+      current = { oldStart, lines: [] };
+      hunks.push(current);
+      continue;
+    }
+    if (!current || raw.startsWith("\\")) continue;
+
+    if (raw.startsWith("+")) {
+      current.lines.push({ type: "add", text: raw.slice(1) });
+    } else if (raw.startsWith("-")) {
+      current.lines.push({ type: "remove", text: raw.slice(1) });
+    } else {
+      // Editors often strip the leading space from blank context lines
+      current.lines.push({ type: "context", text: raw.startsWith(" ") ? raw.slice(1) : raw });
+    }
+  }
+
+  if (files > 1) {
+    throw new EditError("The patch changes more than one file. Send one apply_patch call per file.");
+  }
+
+  // A trailing newline in the patch leaves an empty context line at the end of the last hunk
+  const last = hunks[hunks.length - 1];
+  if (last && last.lines.length > 0 && last.lines[last.lines.length - 1].type === "context" && last.lines[last.lines.length - 1].text === "") {
+    last.lines.pop();
+  }
+
+  const changing = hunks.filter((hunk) => hunk.lines.some((line) => line.type !== "context"));
+  if (changing.length === 0) {
+    throw new EditError("The patch has no hunks with changes. Send a unified diff with @@ hunk headers and +/- lines.");
+  }
+  return changing;
+}
+
+// Ways of comparing a hunk line with a file line, from strictest to loosest
+const MATCHERS: Array<{ label: string; equal: (a: string, b: string) => boolean }> = [
+  { label: "", equal: (a, b) => a === b },
+  { label: "ignoring trailing whitespace", equal: (a, b) => a.trimEnd() === b.trimEnd() },
+  { label: "ignoring whitespace", equal: (a, b) => normalizeWhitespace(a) === normalizeWhitespace(b) },
+];
+
+// How many leading and trailing context lines may be dropped to find a match
+const MAX_FUZZ = 2;
+
+/**
+ * Apply a unified diff to `content`. Each hunk is matched at its stated line first and
+ * then at the nearest place it fits, loosening whitespace comparison and trimming up
+ * to two lines of outer context if needed. Fails when a hunk fits nowhere, or fits
+ * equally well in several places.
+ */
+export function applyPatch(content: string, patch: string): { content: string; notes: string[] } {
+  const hunks = parsePatch(patch);
+  let fileLines = splitLines(content);
+  const notes: string[] = [];
+  // Hunks apply in order, so later ones are searched after earlier ones
+  let searchFrom = 0;
+  let offset = 0;
+
+  hunks.forEach((hunk, hunkIndex) => {
+    const label = `Hunk ${hunkIndex + 1}`;
+    const leadingContext = hunk.lines.findIndex((line) => line.type !== "context");
+    const trailingContext = [...hunk.lines].reverse().findIndex((line) => line.type !== "context");
+    const hunkStart = hunk.oldStart !== undefined ? Math.max(0, hunk.oldStart - 1 + offset) : undefined;
+
+    let applied = false;
+    for (let fuzz = 0; fuzz <= MAX_FUZZ && !applied; fuzz++) {
+      const dropStart = Math.min(fuzz, leadingContext);
+      const dropEnd = Math.min(fuzz, trailingContext);
+      if (fuzz > 0 && dropStart === 0 && dropEnd === 0) break;
+
+      const lines = hunk.lines.slice(dropStart, hunk.lines.length - dropEnd);
+      const oldBlock = lines.filter((line) => line.type !== "add").map((line) => line.text);
+      const expected = hunkStart !== undefined ? hunkStart + dropStart : undefined;
+
+      for (const matcher of MATCHERS) {
+        let candidates: number[] = [];
+        if (oldBlock.length === 0) {
+          // Pure insertion: only the header can say where
+          if (expected === undefined) {
+            throw new EditError(`${label} only adds lines and has no line numbers, so there is no way to tell where it goes. Include context lines.`);
+          }
+          candidates = [Math.min(expected, fileLines.length)];
+        } else {
+          for (let start = searchFrom; start + oldBlock.length <= fileLines.length; start++) {
+            if (oldBlock.every((text, i) => matcher.equal(fileLines[start + i], text))) {
+              candidates.push(start);
+            }
+          }
+        }
+        if (candidates.length === 0) continue;
+
+        let position: number;
+        if (expected !== undefined) {
+          const distance = (start: number) => Math.abs(start - expected);
+          const best = Math.min(...candidates.map(distance));
+          const nearest = candidates.filter((start) => distance(start) === best);
+          if (nearest.length > 1) {
+            throw new EditError(`${label} fits equally well at lines ${nearest.map((start) => start + 1).join(" and ")}. Add more context lines to make it unique.`);
+          }
+          position = nearest[0];
+        } else if (candidates.length > 1) {
+          throw new EditError(`${label} matches ${candidates.length} places (lines ${candidates.map((start) => start + 1).join(", ")}). Add line numbers to the @@ header or more context lines.`);
+        } else {
+          position = candidates[0];
+        }
+
+        // Rebuild the range keeping the file's own context lines, so loose matches keep their whitespace
+        const replacement: string[] = [];
+        let cursor = position;
+        for (const line of lines) {
+          if (line.type === "context") {
+            replacement.push(fileLines[cursor++]);
+          } else if (line.type === "remove") {
+            cursor++;
+          } else {
+            replacement.push(line.text);
+          }
+        }
+        fileLines = [...fileLines.slice(0, position), ...replacement, ...fileLines.slice(cursor)];
+
+        const details = [
+          expected !== undefined && position !== expected ? `offset ${position - expected > 0 ? "+" : ""}${position - expected} lines` : "",
+          matcher.label,
+          fuzz > 0 ? `fuzz ${fuzz}` : "",
+        ].filter(Boolean);
+        notes.push(`${label} applied at line ${position + 1}${details.length > 0 ? ` (${details.join(", ")})` : ""}`);
+
+        // Later hunks shift by how far this one moved plus the lines it added or removed
+        offset += (expected !== undefined ? position - expected : 0) + replacement.length - oldBlock.length;
+        searchFrom = position + replacement.length;
+        applied = true;
+        break;
+      }
+    }
+
+    if (!applied) {
+      const firstRemoved = hunk.lines.find((line) => line.type !== "add" && line.text.trim())?.text.trim();
+      throw new EditError(
+        `${label} does not match the file${hunk.oldStart !== undefined ? ` near line ${hunk.oldStart}` : ""}${firstRemoved ? ` (looking for "${firstRemoved}")` : ""}. Read the current file and regenerate the patch against it.`
+      );
+    }
+  });
+
+  return { content: fileLines.join("\n"), notes };
+}
@@ -0,0 +1,157 @@
+export interface FuzzyScore {
+  score: number;
+  // Indexes of the matched characters in the target, ascending
+  positions: number[];
+}
+
+export interface FuzzyResult<T> extends FuzzyScore {
+  item: T;
+}
+
+export interface FuzzySearchOptions<T> {
+  limit?: number;
+  // The text to match for an item; defaults to the item itself for strings
+  key?: (item: T) => string;
+}
+
+// Every matched character scores this, plus the bonuses below
+const SCORE_MATCH = 16;
+// Matching the first character of a path segment, as "c" in "src/components"
+const BONUS_SEGMENT_START = 10;
+// Matching after a separator or at a camelCase hump, as "p" in "use-pointer" or "userProfile"
+const BONUS_WORD_START = 8;
+// Each character that directly follows the previous match
+const BONUS_CONSECUTIVE = 8;
+// Matches in the file name count for more than matches in its directories
+const BONUS_BASENAME = 4;
+const BONUS_CASE = 1;
+// Skipping characters between two matches costs this much, plus a little per character skipped
+const PENALTY_GAP_START = 3;
+const PENALTY_GAP_EXTENSION = 1;
+// Whole-name matches: the query is the file name (without extension) or starts it
+const BONUS_EXACT_NAME = 40;
+const BONUS_NAME_PREFIX = 20;
+
+function boundaryBonus(target: string, index: number): number {
+  if (index === 0) return BONUS_SEGMENT_START;
+  const previous = target[index - 1];
+  const current = target[index];
+  if (previous === "/") return BONUS_SEGMENT_START;
+  if (/[-_. ]/.test(previous)) return BONUS_WORD_START;
+  if (/[a-z0-9]/.test(previous) && /[A-Z]/.test(current)) return BONUS_WORD_START;
+  return 0;
+}
+
+// The best alignment of one query term within the target, or null when it is not a subsequence
+function matchTerm(term: string, target: string): FuzzyScore | null {
+  const query = term.toLowerCase();
+  const text = target.toLowerCase();
+
+  // Cheap rejection before the full alignment
+  let found = 0;
+  for (let j = 0; j < text.length && found < query.length; j++) {
+    if (text[j] === query[found]) found++;
+  }
+  if (found < query.length) return null;
+
+  const basenameStart = target.lastIndexOf("/") + 1;
+  const charScore = (i: number, j: number) =>
+    SCORE_MATCH +
+    boundaryBonus(target, j) +
+    (j >= basenameStart ? BONUS_BASENAME : 0) +
+    (target[j] === term[i] ? BONUS_CASE : 0);
+
+  // scores[i][j]: the best score with query[i] matched at text[j]; from[i][j] is where query[i - 1] was
+  const scores: number[][] = [];
+  const from: number[][] = [];
+  for (let i = 0; i < query.length; i++) {
+    const row = new Array<number>(text.length).fill(-Infinity);
+    const back = new Array<number>(text.length).fill(-1);
+    const previousRow = scores[i - 1];
+    // Best previous match at least two characters back, with the gap already charged
+    let gapBest = -Infinity;
+    let gapFrom = -1;
+
+    for (let j = 0; j < text.length; j++) {
+      if (i > 0 && j >= 2) {
+        gapBest -= PENALTY_GAP_EXTENSION;
+        const candidate = previousRow[j - 2] - PENALTY_GAP_START;
+        if (candidate > gapBest) {
+          gapBest = candidate;
+          gapFrom = j - 2;
+        }
+      }
+      if (text[j] !== query[i]) continue;
+
+      const score = charScore(i, j);
+      if (i === 0) {
+        row[j] = score;
+        continue;
+      }
+      const consecutive = j > 0 ? previousRow[j - 1] + BONUS_CONSECUTIVE : -Infinity;
+      if (consecutive >= gapBest && consecutive > -Infinity) {
+        row[j] = consecutive + score;
+        back[j] = j - 1;
+      } else if (gapBest > -Infinity) {
+        row[j] = gapBest + score;
+        back[j] = gapFrom;
+      }
+    }
+    scores.push(row);
+    from.push(back);
+  }
+
+  const lastRow = scores[query.length - 1];
+  let end = 0;
+  for (let j = 1; j < text.length; j++) {
+    if (lastRow[j] > lastRow[end]) end = j;
+  }
+  if (lastRow[end] === -Infinity) return null;
+
+  const positions: number[] = [];
+  for (let i = query.length - 1, j = end; i >= 0; j = from[i][j], i--) {
+    positions.unshift(j);
+  }
+
+  const name = text.slice(basenameStart).replace(/\.[^.]*$/, "");
+  const nameBonus = name === query ? BONUS_EXACT_NAME : name.startsWith(query) ? BONUS_NAME_PREFIX : 0;
+  return { score: lastRow[end] + nameBonus, positions };
+}
+
+/**
+ * Score how well a query matches a path, or null when it does not. The query's characters
+ * must appear in order, case-insensitively. Matches at the start of path segments,
+ * words and camelCase humps, runs of consecutive characters and matches in the file name
+ * score higher. Words separated by spaces must each match.
+ */
+export function fuzzyMatch(query: string, target: string): FuzzyScore | null {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  let score = 0;
+  const positions = new Set<number>();
+  for (const term of terms) {
+    const match = matchTerm(term, target);
+    if (!match) return null;
+    score += match.score;
+    match.positions.forEach((position) => positions.add(position));
+  }
+  return { score, positions: [...positions].sort((a, b) => a - b) };
+}
+
+/**
+ * Rank items by fuzzy match against the query, best first, keeping at most `limit`.
+ * Ties go to the shorter path. An empty query keeps the items in their order.
+ */
+export function fuzzySearch<T>(query: string, items: T[], { limit = 50, key }: FuzzySearchOptions<T> = {}): FuzzyResult<T>[] {
+  const textOf = key ?? ((item: T) => String(item));
+  const results: Array<FuzzyResult<T> & { text: string }> = [];
+  for (const item of items) {
+    const text = textOf(item);
+    const match = fuzzyMatch(query, text);
+    if (match) results.push({ item, text, ...match });
+  }
+
+  if (query.trim()) {
+    results.sort((a, b) => b.score - a.score || a.text.length - b.text.length || a.text.localeCompare(b.text));
+  }
+  return results.slice(0, limit).map(({ item, score, positions }) => ({ item, score, positions }));
+}
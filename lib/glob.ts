@@ -0,0 +1,230 @@
+// Brace alternatives are expanded up front; a pattern never produces more than this many
+const MAX_BRACE_EXPANSIONS = 256;
+
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\*?]/g, "\\$&");
+
+/**
+ * Expand `{a,b}` alternatives, including nested ones, into separate patterns. Braces
+ * without a comma are left as they are.
+ */
+export function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let open = -1;
+  let hasComma = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "{") {
+      if (depth === 0) {
+        open = i;
+        hasComma = false;
+      }
+      depth++;
+    } else if (char === "," && depth === 1) {
+      hasComma = true;
+    } else if (char === "}" && depth > 0) {
+      depth--;
+      if (depth === 0 && hasComma) {
+        const prefix = pattern.slice(0, open);
+        const suffix = pattern.slice(i + 1);
+        const expanded: string[] = [];
+        for (const alternative of splitAlternatives(pattern.slice(open + 1, i))) {
+          for (const rest of expandBraces(alternative + suffix)) {
+            if (expanded.length >= MAX_BRACE_EXPANSIONS) return expanded;
+            expanded.push(prefix + rest);
+          }
+        }
+        return expanded;
+      }
+    }
+  }
+  return [pattern];
+}
+
+// Split the inside of a brace group at its top-level commas
+function splitAlternatives(body: string): string[] {
+  const alternatives: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "\\") i++;
+    else if (body[i] === "{") depth++;
+    else if (body[i] === "}") depth--;
+    else if (body[i] === "," && depth === 0) {
+      alternatives.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  alternatives.push(body.slice(start));
+  return alternatives;
+}
+
+// The regular expression source for a glob without braces
+function translate(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "\\" && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else if (char === "*" && glob[i + 1] === "*" && (i === 0 || glob[i - 1] === "/") && (i + 2 === glob.length || glob[i + 2] === "/")) {
+      // "**" as a whole segment spans directories: "**/" is any number of them, a trailing "**" is anything
+      if (i + 2 === glob.length) {
+        source += ".*";
+        i++;
+      } else {
+        source += "(?:[^/]*/)*";
+        i += 2;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+      while (glob[i + 1] === "*") i++;
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      // A "]" straight after "[" or "[!" is part of the class
+      const end = glob.indexOf("]", glob[i + 1] === "!" ? i + 3 : i + 2);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end);
+        source += `[${body.startsWith("!") ? `^${body.slice(1)}` : body}]`;
+        i = end;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * Compile a glob into a regular expression that matches a whole path. `*` and `?` stay
+ * within one path segment, `**` spans segments, and `[...]` and `{a,b}` work as in a shell.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^(?:${expandBraces(pattern).map(translate).join("|")})$`);
+}
+
+export const hasGlobSyntax = (text: string) => /[*?[{]/.test(text);
+
+// Project paths without their leading "/" or "./", as globs are written
+export const toRelativePath = (path: string) => path.replace(/^\.?\/+/, "").replace(/\/+$/, "");
+
+// Every directory above a relative path, nearest last: "a/b/c.ts" → ["a", "a/b"]
+const parentDirectories = (path: string) => {
+  const segments = path.split("/");
+  return segments.slice(1).map((_, index) => segments.slice(0, index + 1).join("/"));
+};
+
+export interface GlobMatcherOptions {
+  // Also match paths inside a directory that matches, so "src/components" matches its files
+  matchParents?: boolean;
+}
+
+interface GlobRule {
+  pattern: RegExp;
+  negate: boolean;
+}
+
+/**
+ * A predicate for project paths from a list of globs. A pattern without a slash, like
+ * `*.test.ts`, matches at any depth; one with a slash is relative to the project root.
+ * Patterns starting with `!` exclude what earlier ones matched, and the last matching
+ * pattern wins. With only exclusions, everything else matches; with no patterns at all,
+ * everything does.
+ */
+export function createGlobMatcher(patterns: string | string[], { matchParents = false }: GlobMatcherOptions = {}) {
+  const rules: GlobRule[] = (Array.isArray(patterns) ? patterns : [patterns])
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+    .map((pattern) => {
+      const negate = pattern.startsWith("!");
+      const body = toRelativePath(negate ? pattern.slice(1) : pattern);
+      return { pattern: globToRegExp(body.includes("/") ? body : `**/${body}`), negate };
+    });
+  const matchesByDefault = rules.every((rule) => rule.negate);
+
+  return (path: string) => {
+    const relative = toRelativePath(path);
+    const candidates = matchParents ? [relative, ...parentDirectories(relative)] : [relative];
+    let matched = matchesByDefault;
+    for (const rule of rules) {
+      if (candidates.some((candidate) => rule.pattern.test(candidate))) {
+        matched = !rule.negate;
+      }
+    }
+    return matched;
+  };
+}
+
+interface GitignoreRule extends GlobRule {
+  // A trailing slash: only matches directories
+  directoryOnly: boolean;
+}
+
+// The rules of one .gitignore file, in order
+function parseGitignore(content: string): GitignoreRule[] {
+  const rules: GitignoreRule[] = [];
+  for (const rawLine of content.split("\n")) {
+    // Trailing spaces are dropped unless escaped
+    let line = rawLine.replace(/\r$/, "").replace(/([^\\])\s+$/, "$1");
+    if (!line || line.startsWith("#")) continue;
+
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    // "\#" and "\!" start patterns that are literally "#..." and "!..."
+    if (/^\\[#!]/.test(line)) line = line.slice(1);
+
+    const directoryOnly = line.endsWith("/");
+    line = line.replace(/\/+$/, "");
+    // A slash at the start or in the middle anchors the pattern to the .gitignore's directory
+    const anchored = line.includes("/");
+    line = line.replace(/^\/+/, "");
+    if (!line) continue;
+
+    rules.push({ pattern: globToRegExp(anchored ? line : `**/${line}`), negate, directoryOnly });
+  }
+  return rules;
+}
+
+/**
+ * A predicate that is true for paths the project's .gitignore files exclude. Every
+ * .gitignore in the files applies to its own directory, deeper ones taking precedence,
+ * and a file inside an ignored directory is ignored.
+ */
+export function createGitignoreFilter(files: Record<string, string>): (path: string) => boolean {
+  const ignoreFiles = Object.keys(files)
+    .filter((path) => /(?:^|\/)\.gitignore$/.test(path))
+    .map((path) => {
+      const directory = toRelativePath(path).split("/").slice(0, -1).join("/");
+      return { directory, rules: parseGitignore(files[path]) };
+    })
+    .sort((a, b) => a.directory.length - b.directory.length);
+  const results = new Map<string, boolean>();
+
+  const isIgnored = (relative: string, isDirectory: boolean) => {
+    let ignored = false;
+    for (const { directory, rules } of ignoreFiles) {
+      if (directory && !relative.startsWith(`${directory}/`)) continue;
+      const local = directory ? relative.slice(directory.length + 1) : relative;
+      for (const rule of rules) {
+        if ((!rule.directoryOnly || isDirectory) && rule.pattern.test(local)) {
+          ignored = !rule.negate;
+        }
+      }
+    }
+    return ignored;
+  };
+
+  return (path: string) => {
+    if (ignoreFiles.length === 0) return false;
+    const relative = toRelativePath(path);
+    const cached = results.get(relative);
+    if (cached !== undefined) return cached;
+
+    const ignored = parentDirectories(relative).some((directory) => isIgnored(directory, true)) || isIgnored(relative, false);
+    results.set(relative, ignored);
+    return ignored;
+  };
+}
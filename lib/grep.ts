@@ -0,0 +1,311 @@
+export const MAX_MATCHES_PER_FILE = 20;
+export const MAX_TOTAL_MATCHES = 100;
+export const MAX_CONTEXT_LINES = 10;
+// Longer lines, as in minified bundles, are cut down to the part around the first match
+const MAX_LINE_LENGTH = 300;
+
+export interface GrepOptions {
+  caseSensitive?: boolean;
+  // Search for the query as plain text rather than a regular expression
+  literal?: boolean;
+  contextBefore?: number;
+  contextAfter?: number;
+  maxMatchesPerFile?: number;
+  maxTotalMatches?: number;
+}
+
+export interface GrepLine {
+  line: number;
+  content: string;
+}
+
+export interface GrepMatch extends GrepLine {
+  matches: Array<{ text: string; index: number }>;
+  // Context lines not already shown with the previous match
+  before?: GrepLine[];
+  after?: GrepLine[];
+}
+
+export interface GrepFileResult {
+  file: string;
+  matches: GrepMatch[];
+  // Matches past the per-file limit, which are counted but not returned
+  omittedMatches?: number;
+}
+
+export interface GrepOutput {
+  results: GrepFileResult[];
+  totalMatches: number;
+  // True when a limit cut the results short
+  truncated: boolean;
+  // How the query was searched for
+  mode: "regex" | "literal";
+  notes: string[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+
+// Whether a group body holds quantifiers that repeat without bound (+, *, {n,}) or
+// ones that only vary the length of a match (?, {n,m})
+function quantifiersIn(body: string) {
+  let unbounded = false;
+  let bounded = false;
+  let inClass = false;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === "\\") {
+      i++;
+    } else if (inClass) {
+      if (char === "]") inClass = false;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "+" || char === "*") {
+      unbounded = true;
+    } else if (char === "?" && body[i - 1] !== "(") {
+      bounded = true;
+    } else if (char === "{") {
+      const range = /^\{(\d+)(,(\d*))?\}/.exec(body.slice(i));
+      if (range?.[2] && !range[3]) unbounded = true;
+      else if (range?.[3] && range[3] !== range[1]) bounded = true;
+    }
+  }
+  return { unbounded, bounded };
+}
+
+// The top-level alternatives of a group body, and the bodies of the groups nested in it
+function parseGroup(body: string) {
+  const branches: string[] = [];
+  const groups: string[] = [];
+  let depth = 0;
+  let groupStart = 0;
+  let inClass = false;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === "\\") {
+      i++;
+    } else if (inClass) {
+      if (char === "]") inClass = false;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      if (depth === 0) groupStart = i + 1;
+      depth++;
+    } else if (char === ")") {
+      depth--;
+      if (depth === 0) groups.push(body.slice(groupStart, i));
+    } else if (char === "|" && depth === 0) {
+      branches.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  branches.push(body.slice(start));
+  return { branches, groups };
+}
+
+// The fixed text a branch starts with, up to its first class, group or quantified character
+function literalPrefix(branch: string): string {
+  let prefix = "";
+  for (let i = 0; i < branch.length; i++) {
+    let char = branch[i];
+    let next = i + 1;
+    if (char === "\\") {
+      char = branch[i + 1] ?? "";
+      // \d, \w, \b and backreferences match more than one text
+      if (/[A-Za-z0-9]/.test(char)) break;
+      next = i + 2;
+    } else if (/[.[(^$*+?{]/.test(char)) {
+      break;
+    }
+    if (QUANTIFIER.test(branch.slice(next))) break;
+    prefix += char;
+    i = next - 1;
+  }
+  return prefix.toLowerCase();
+}
+
+/**
+ * Whether a repeated group can match the same text in more than one way, which makes a
+ * regex engine try exponentially many splits on lines that almost match. That is the case
+ * when it holds a quantifier without bound, as in (a+)+; when one alternative starts
+ * with another, as in (a|ab)*; or when optional parts let one repetition end where the
+ * next could start, as in (aa?)+.
+ */
+function isAmbiguousGroup(group: string): boolean {
+  const body = group.replace(/^\?(?:[:=!]|<[=!])/, "");
+  const { unbounded, bounded } = quantifiersIn(body);
+  if (unbounded) return true;
+
+  const { branches, groups } = parseGroup(body);
+  // Nested groups repeat along with this one
+  if (groups.some(isAmbiguousGroup)) return true;
+  const prefixes = branches.map(literalPrefix);
+  if (branches.length > 1 && prefixes.some((prefix, i) => prefixes.some((other, j) => i !== j && other.startsWith(prefix)))) {
+    return true;
+  }
+  if (!bounded) return false;
+
+  // Each repetition must start with a character that appears nowhere else in the group
+  if (prefixes.some((prefix) => !prefix)) return true;
+  const starts = prefixes.map((prefix) => prefix[0]);
+  return branches.some((branch) => {
+    const rest = branch.slice(branch[0] === "\\" ? 2 : 1).toLowerCase();
+    return starts.some((start) => rest.includes(start));
+  });
+}
+
+// Whether a pattern repeats a group that can match the same text in more than one way
+function hasAmbiguousRepetition(query: string): boolean {
+  // Where each open group starts
+  const groups: number[] = [];
+  let inClass = false;
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if (char === "\\") {
+      i++;
+    } else if (inClass) {
+      if (char === "]") inClass = false;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push(i);
+    } else if (char === ")") {
+      const start = groups.pop();
+      if (start !== undefined && /^(?:[+*]|\{\d)/.test(query.slice(i + 1)) && isAmbiguousGroup(query.slice(start + 1, i))) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Compile a grep query. An invalid regular expression, or one that could backtrack
+ * catastrophically, is searched for as literal text instead, with a note saying why.
+ */
+export function compileGrepPattern(query: string, { caseSensitive = false, literal = false }: GrepOptions = {}) {
+  const flags = caseSensitive ? "g" : "gi";
+  if (literal) {
+    return { pattern: new RegExp(escapeRegExp(query), flags), mode: "literal" as const };
+  }
+  if (hasAmbiguousRepetition(query)) {
+    return {
+      pattern: new RegExp(escapeRegExp(query), flags),
+      mode: "literal" as const,
+      note: `"${query}" repeats a group that can match the same text in more than one way, such as (a+)+ or (a|ab)*, which can make a regex search hang, so it was searched for as literal text. Rewrite the repeated group so each repetition can only match one way to search it as a regex.`,
+    };
+  }
+  try {
+    return { pattern: new RegExp(query, flags), mode: "regex" as const };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.replace(/^Invalid regular expression: /, "") : String(error);
+    return {
+      pattern: new RegExp(escapeRegExp(query), flags),
+      mode: "literal" as const,
+      note: `"${query}" is not a valid regular expression (${reason}), so it was searched for as literal text. Escape special characters such as ( [ { . * + ? with a backslash to search them as a regex.`,
+    };
+  }
+}
+
+// A long line cut to the part around its first match, with the match offsets adjusted
+function clipLine(content: string, matches: GrepMatch["matches"]): Pick<GrepMatch, "content" | "matches"> {
+  if (content.length <= MAX_LINE_LENGTH) return { content, matches };
+  const start = Math.max(0, (matches[0]?.index ?? 0) - MAX_LINE_LENGTH / 3);
+  const end = start + MAX_LINE_LENGTH;
+  return {
+    content: `${start > 0 ? "..." : ""}${content.slice(start, end)}${end < content.length ? "..." : ""}`,
+    matches: matches
+      .filter((match) => match.index >= start && match.index < end)
+      .map((match) => ({ text: match.text.slice(0, MAX_LINE_LENGTH), index: match.index - start + (start > 0 ? 3 : 0) })),
+  };
+}
+
+const clip = (content: string) => (content.length > MAX_LINE_LENGTH ? `${content.slice(0, MAX_LINE_LENGTH)}...` : content);
+
+/**
+ * Search files line by line, like grep. At most `maxMatchesPerFile` matches are returned
+ * for each file and `maxTotalMatches` overall; the search stops at the total limit and
+ * marks the output as truncated.
+ */
+export function grepFiles(files: Record<string, string>, query: string, options: GrepOptions = {}): GrepOutput {
+  const {
+    maxMatchesPerFile = MAX_MATCHES_PER_FILE,
+    maxTotalMatches = MAX_TOTAL_MATCHES,
+  } = options;
+  const contextBefore = Math.min(Math.max(0, options.contextBefore ?? 0), MAX_CONTEXT_LINES);
+  const contextAfter = Math.min(Math.max(0, options.contextAfter ?? 0), MAX_CONTEXT_LINES);
+  const { pattern, mode, note } = compileGrepPattern(query, options);
+  const notes = note ? [note] : [];
+
+  const results: GrepFileResult[] = [];
+  let totalMatches = 0;
+  let truncated = false;
+
+  for (const [file, content] of Object.entries(files)) {
+    if (totalMatches >= maxTotalMatches) {
+      truncated = true;
+      break;
+    }
+
+    const lines = content.split("\n");
+    const matches: GrepMatch[] = [];
+    let omittedMatches = 0;
+    // The last line already shown, so context is not repeated between nearby matches
+    let shownThrough = -1;
+
+    lines.forEach((text, index) => {
+      pattern.lastIndex = 0;
+      if (!pattern.test(text)) return;
+      if (matches.length >= maxMatchesPerFile || totalMatches >= maxTotalMatches) {
+        omittedMatches++;
+        return;
+      }
+
+      pattern.lastIndex = 0;
+      const found: GrepMatch["matches"] = [];
+      for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        found.push({ text: match[0], index: match.index });
+        // An empty match would never advance
+        if (match[0] === "") pattern.lastIndex++;
+      }
+
+      const before: GrepLine[] = [];
+      for (let line = Math.max(shownThrough + 1, index - contextBefore); line < index; line++) {
+        before.push({ line: line + 1, content: clip(lines[line]) });
+      }
+      const after: GrepLine[] = [];
+      for (let line = index + 1; line <= Math.min(lines.length - 1, index + contextAfter); line++) {
+        // A matching line is reported as a match of its own, with this one as its context
+        pattern.lastIndex = 0;
+        if (pattern.test(lines[line])) break;
+        after.push({ line: line + 1, content: clip(lines[line]) });
+      }
+      shownThrough = index + after.length;
+
+      matches.push({
+        line: index + 1,
+        ...clipLine(text, found),
+        ...(before.length > 0 ? { before } : {}),
+        ...(after.length > 0 ? { after } : {}),
+      });
+      totalMatches++;
+    });
+
+    if (matches.length > 0) {
+      results.push({ file, matches, ...(omittedMatches > 0 ? { omittedMatches } : {}) });
+    }
+    if (omittedMatches > 0) truncated = true;
+  }
+
+  if (truncated) {
+    notes.push(
+      totalMatches >= maxTotalMatches
+        ? `Stopped after ${maxTotalMatches} matches, so other files may match too. Narrow the pattern or use include_pattern to see the rest.`
+        : `Only the first ${maxMatchesPerFile} matches in each file are shown; omittedMatches counts the others.`
+    );
+  }
+
+  return { results, totalMatches, truncated, mode, notes };
+}
@@ -0,0 +1,147 @@
+import { readAnthropicStream } from "@/lib/streaming";
+import { ensureOk, fetchProvider } from "@/lib/providers/errors";
+import type { LLMRequest, LLMResponse, ProviderAdapter, ProviderConfig } from "@/lib/providers/types";
+
+export const ANTHROPIC_BASE_URL = "https://api.anthropic.com";
+
+const EPHEMERAL_CACHE = { type: "ephemeral" } as const;
+
+// The API rejects requests with more cache breakpoints than this
+export const MAX_CACHE_BREAKPOINTS = 4;
+
+// Empty text and thinking blocks cannot carry cache_control
+const canCarryBreakpoint = (block: any) =>
+  block.type !== "thinking" && block.type !== "redacted_thinking" && !(block.type === "text" && !block.text);
+
+// The index of the last block that can be a breakpoint, or -1 when none can
+const lastBreakpointIndex = (blocks: any[]) => {
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    if (canCarryBreakpoint(blocks[i])) return i;
+  }
+  return -1;
+};
+
+const toBlocks = (content: any): any[] => (typeof content === "string" ? [{ type: "text", text: content }] : content);
+
+const countBreakpoints = (blocks: any[]) => blocks.filter((block) => block.cache_control).length;
+
+// What the cache holds for a request up to a breakpoint: the tools, the stable system
+// blocks and the messages. A later request only reads it back if all of these match.
+const cacheKey = (tools: unknown, systemBlocks: unknown, messages: unknown) => JSON.stringify([tools, systemBlocks, messages]);
+
+/**
+ * Place prompt cache breakpoints on a request: after the tools, after the stable part of
+ * the system prompt, and after the last message. Every tool round extends the previous
+ * request, so it reads all of that back from the cache. The last of several system
+ * blocks changes between turns and is left out.
+ *
+ * The user message before the last one gets a breakpoint too when `cachedPrefix`, the
+ * `prefix` returned for the previous request, shows the request still starts with what
+ * was cached then; after a compaction or a changed system prompt it would only write a
+ * cache entry nothing reads. Breakpoints already in the request count towards the limit,
+ * and those placed here are dropped from the end of the list above when it is reached.
+ */
+export function addCacheBreakpoints(
+  { tools, system, messages }: Pick<LLMRequest, "tools" | "system" | "messages">,
+  cachedPrefix?: string
+) {
+  const systemBlocks = typeof system === "string" ? [{ type: "text" as const, text: system }] : system ?? [];
+  const stableCount = systemBlocks.length > 1 ? systemBlocks.length - 1 : systemBlocks.length;
+  const stableSystem = systemBlocks.slice(0, stableCount);
+  const toolList = tools ?? [];
+
+  const last = messages.length - 1;
+  let previousUser = last - 1;
+  while (previousUser >= 0 && messages[previousUser].role !== "user") previousUser--;
+  const previousUserCached = previousUser >= 0 &&
+    cachedPrefix === cacheKey(toolList, stableSystem, messages.slice(0, previousUser + 1));
+
+  let remaining = MAX_CACHE_BREAKPOINTS -
+    countBreakpoints(toolList) -
+    countBreakpoints(systemBlocks) -
+    messages.reduce((total, message) => total + countBreakpoints(toBlocks(message.content)), 0);
+
+  // Mark the last block that can carry a breakpoint, while the limit allows
+  const mark = (blocks: any[]) => {
+    const index = lastBreakpointIndex(blocks);
+    if (index === -1 || remaining <= 0) return blocks;
+    remaining--;
+    const marked = [...blocks];
+    marked[index] = { ...marked[index], cache_control: EPHEMERAL_CACHE };
+    return marked;
+  };
+
+  const markedTools = toolList.length > 0 ? mark(toolList) : undefined;
+  const markedSystem = systemBlocks.length > 0 ? [...mark(stableSystem), ...systemBlocks.slice(stableCount)] : undefined;
+  const markedMessages: LLMRequest["messages"] = [...messages];
+  if (last >= 0) {
+    markedMessages[last] = { ...messages[last], content: mark(toBlocks(messages[last].content)) };
+  }
+  if (previousUserCached) {
+    markedMessages[previousUser] = { ...messages[previousUser], content: mark(toBlocks(messages[previousUser].content)) };
+  }
+
+  return {
+    tools: markedTools,
+    system: markedSystem,
+    messages: markedMessages,
+    prefix: cacheKey(toolList, stableSystem, messages),
+  };
+}
+
+// Thinking blocks are only sent back while extended thinking is on
+const withoutThinking = (messages: LLMRequest["messages"]) =>
+  messages.map((message) =>
+    Array.isArray(message.content)
+      ? { ...message, content: message.content.filter((block: any) => block.type !== "thinking" && block.type !== "redacted_thinking") }
+      : message
+  );
+
+/**
+ * Adapter for the Anthropic Messages API. Requests and responses already use the
+ * agent's canonical shape, so this only adds transport details and prompt caching.
+ */
+export function createAnthropicAdapter({ apiKey, baseUrl }: Omit<ProviderConfig, "provider">): ProviderAdapter {
+  // What the last request wrote to the cache, to tell whether the next one can read it
+  let cachedPrefix: string | undefined;
+  return {
+    id: "anthropic",
+    async createMessage(request, stream, signal) {
+      const { tools, system, messages, prefix } = addCacheBreakpoints({
+        ...request,
+        messages: request.thinkingBudget ? request.messages : withoutThinking(request.messages),
+      }, cachedPrefix);
+      const response = await fetchProvider(`${baseUrl || ANTHROPIC_BASE_URL}/v1/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey || "",
+          "anthropic-version": "2023-06-01",
+          "anthropic-dangerous-direct-browser-access": "true",
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          messages,
+          ...(system ? { system } : {}),
+          ...(tools ? { tools } : {}),
+          // Extended thinking only runs at the default temperature
+          ...(request.thinkingBudget
+            ? { thinking: { type: "enabled", budget_tokens: request.thinkingBudget } }
+            : request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          stream: !!stream,
+        }),
+        signal,
+      }, "Anthropic");
+
+      await ensureOk(response, "Anthropic");
+      cachedPrefix = prefix;
+
+      if (stream) {
+        return (await readAnthropicStream(response, stream)) as LLMResponse;
+      }
+
+      return await response.json();
+    },
+  };
+}
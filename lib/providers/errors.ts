@@ -0,0 +1,68 @@
+export class ProviderError extends Error {
+  status?: number;
+  // How long the backend asked us to wait before retrying, from its retry-after header
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// A request that never got a response, e.g. because the server could not be reached
+export class ProviderNetworkError extends ProviderError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderNetworkError";
+  }
+}
+
+/**
+ * fetch for provider requests. A connection failure is thrown as a ProviderNetworkError,
+ * so it can be told apart from a TypeError raised by a bug; cancellations are rethrown as they are.
+ */
+export async function fetchProvider(url: string, init: RequestInit, providerLabel: string): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new ProviderNetworkError(
+      `Could not reach ${providerLabel}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Read a retry-after-ms or retry-after header, in seconds or as an HTTP date.
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const milliseconds = Number(headers.get("retry-after-ms"));
+  if (headers.get("retry-after-ms") && Number.isFinite(milliseconds)) return Math.max(0, milliseconds);
+
+  const value = headers.get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Throws a ProviderError with the backend's own error message when the response is not OK
+ */
+export async function ensureOk(response: Response, providerLabel: string): Promise<void> {
+  if (response.ok) return;
+
+  let message = `Failed to get response from ${providerLabel} (${response.status} ${response.statusText})`;
+  try {
+    const errorData = await response.json();
+    // Anthropic and OpenAI nest the message under `error`, Ollama returns a plain string
+    message = errorData.error?.message || (typeof errorData.error === "string" ? errorData.error : message);
+  } catch {
+    // Body was not JSON; keep the status-based message
+  }
+
+  throw new ProviderError(message, response.status, parseRetryAfter(response.headers));
+}
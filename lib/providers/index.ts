@@ -0,0 +1,84 @@
+import type { CallLLMFunction } from "@/hooks/useSandpackAgent";
+import type { EmbeddingProvider } from "@/lib/codeIndex";
+import { ANTHROPIC_BASE_URL, createAnthropicAdapter } from "@/lib/providers/anthropic";
+import { OPENAI_BASE_URL, createOpenAIAdapter, createOpenAIEmbeddingProvider } from "@/lib/providers/openai";
+import { OLLAMA_BASE_URL, createOllamaAdapter, createOllamaEmbeddingProvider } from "@/lib/providers/ollama";
+import type { GenerationSettings, LLMResponse, ProviderAdapter, ProviderConfig, ProviderId } from "@/lib/providers/types";
+
+export * from "@/lib/providers/types";
+export { ProviderError, ProviderNetworkError } from "@/lib/providers/errors";
+export * from "@/lib/providers/retry";
+export * from "@/lib/providers/replay";
+
+export interface ProviderInfo {
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  // Whether requests fail without an API key (local servers usually need none)
+  requiresApiKey: boolean;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+  anthropic: {
+    label: "Anthropic",
+    defaultBaseUrl: ANTHROPIC_BASE_URL,
+    defaultModel: "claude-3-7-sonnet-20250219",
+    requiresApiKey: true,
+  },
+  openai: {
+    label: "OpenAI-compatible",
+    defaultBaseUrl: OPENAI_BASE_URL,
+    defaultModel: "gpt-4o",
+    requiresApiKey: false,
+  },
+  ollama: {
+    label: "Ollama (local)",
+    defaultBaseUrl: OLLAMA_BASE_URL,
+    defaultModel: "llama3.1",
+    requiresApiKey: false,
+  },
+};
+
+export function createProviderAdapter({ provider, ...connection }: ProviderConfig): ProviderAdapter {
+  switch (provider) {
+    case "anthropic":
+      return createAnthropicAdapter(connection);
+    case "openai":
+      return createOpenAIAdapter(connection);
+    case "ollama":
+      return createOllamaAdapter(connection);
+    default:
+      throw new Error(`Unknown provider: ${provider}`);
+  }
+}
+
+/**
+ * Embeddings for codebase_search from the same backend as the chat model. Anthropic has
+ * no embeddings API, so there is none for it and search ranks by keywords alone.
+ */
+export function createEmbeddingProvider({ provider, ...connection }: ProviderConfig, model: string): EmbeddingProvider | undefined {
+  switch (provider) {
+    case "openai":
+      return createOpenAIEmbeddingProvider(connection, model);
+    case "ollama":
+      return createOllamaEmbeddingProvider(connection, model);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Wrap an adapter as the CallLLMFunction expected by useSandpackAgent
+ */
+export function createCallLLM(adapter: ProviderAdapter, generation: GenerationSettings): CallLLMFunction {
+  return (messages, systemPrompt, tools, stream, signal) =>
+    adapter.createMessage({ ...generation, system: systemPrompt, messages, tools }, stream, signal);
+}
+
+// Concatenate the text blocks of a response
+export function getResponseText(response: LLMResponse): string {
+  return response.content
+    .filter((block) => block.type === "text" && block.text)
+    .map((block) => block.text)
+    .join("\n\n");
+}
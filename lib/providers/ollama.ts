@@ -0,0 +1,162 @@
+import type { AnthropicMessage, SystemPrompt } from "@/hooks/useSandpackAgent";
+import type { EmbeddingProvider } from "@/lib/codeIndex";
+import { readJSONLines } from "@/lib/streaming";
+import { ensureOk, fetchProvider } from "@/lib/providers/errors";
+import { joinText, systemPromptText, toContentBlocks, toolResultToString, toOpenAITools } from "@/lib/providers/openai";
+import type { LLMResponse, ProviderAdapter, ProviderConfig } from "@/lib/providers/types";
+
+export const OLLAMA_BASE_URL = "http://localhost:11434";
+
+/**
+ * Translate canonical messages into Ollama chat messages. Ollama tool calls carry no
+ * ids and take their arguments as objects, so tool results are matched by tool name.
+ */
+export function toOllamaMessages(system: SystemPrompt | undefined, messages: AnthropicMessage[]) {
+  const result: any[] = [];
+  const toolNamesById: Record<string, string> = {};
+  if (system) {
+    result.push({ role: "system", content: systemPromptText(system) });
+  }
+
+  for (const message of messages) {
+    const blocks = toContentBlocks(message.content);
+
+    if (message.role === "assistant") {
+      const toolCalls = blocks
+        .filter((block) => block.type === "tool_use")
+        .map((block) => {
+          toolNamesById[block.id] = block.name;
+          return { function: { name: block.name, arguments: block.input ?? {} } };
+        });
+      result.push({
+        role: "assistant",
+        content: joinText(blocks),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    for (const block of blocks.filter((block) => block.type === "tool_result")) {
+      result.push({
+        role: "tool",
+        tool_name: toolNamesById[block.tool_use_id],
+        content: toolResultToString(block.content),
+      });
+    }
+    const text = joinText(blocks);
+    if (text) {
+      result.push({ role: "user", content: text });
+    }
+  }
+
+  return result;
+}
+
+// Ollama does not assign ids to tool calls, so mint ones the agent can pair results with
+const toToolUseBlocks = (toolCalls: any[] = [], offset: number) =>
+  toolCalls.map((toolCall, index) => ({
+    type: "tool_use",
+    id: `ollama-call-${Date.now()}-${offset + index}`,
+    name: toolCall.function?.name,
+    input: toolCall.function?.arguments ?? {},
+  }));
+
+/**
+ * Adapter for a local Ollama server's native /api/chat endpoint. Nothing leaves the
+ * machine, and no API key is needed.
+ */
+export function createOllamaAdapter({ baseUrl }: Omit<ProviderConfig, "provider">): ProviderAdapter {
+  return {
+    id: "ollama",
+    async createMessage(request, stream, signal) {
+      const tools = request.tools && request.tools.length > 0 ? toOpenAITools(request.tools) : undefined;
+      const response = await fetchProvider(`${baseUrl || OLLAMA_BASE_URL}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: request.model,
+          messages: toOllamaMessages(request.system, request.messages),
+          ...(tools ? { tools } : {}),
+          options: {
+            num_predict: request.maxTokens,
+            ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          },
+          stream: !!stream,
+        }),
+        signal,
+      }, "Ollama");
+
+      await ensureOk(response, "Ollama");
+
+      let text = "";
+      const toolUses: any[] = [];
+      let final: any = {};
+
+      if (stream) {
+        for await (const chunk of readJSONLines(response)) {
+          if (chunk.error) {
+            throw new Error(chunk.error);
+          }
+          if (chunk.message?.content) {
+            text += chunk.message.content;
+            stream.onTextDelta?.(chunk.message.content);
+          }
+          // Tool calls arrive whole rather than as argument deltas
+          for (const toolUse of toToolUseBlocks(chunk.message?.tool_calls, toolUses.length)) {
+            toolUses.push(toolUse);
+            stream.onToolUseStart?.({ id: toolUse.id, name: toolUse.name });
+            stream.onToolUseDelta?.(toolUse.id, JSON.stringify(toolUse.input));
+          }
+          if (chunk.done) {
+            final = chunk;
+          }
+        }
+      } else {
+        final = await response.json();
+        text = final.message?.content || "";
+        toolUses.push(...toToolUseBlocks(final.message?.tool_calls, 0));
+      }
+
+      const content: any[] = [];
+      if (text) {
+        content.push({ type: "text", text });
+      }
+      content.push(...toolUses);
+
+      const stopReason: LLMResponse["stop_reason"] =
+        toolUses.length > 0 ? "tool_use" : final.done_reason === "length" ? "max_tokens" : "end_turn";
+
+      return {
+        role: "assistant",
+        model: final.model,
+        content,
+        stop_reason: stopReason,
+        usage: {
+          input_tokens: final.prompt_eval_count ?? 0,
+          output_tokens: final.eval_count ?? 0,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Embeddings from a local Ollama server's /api/embed endpoint, e.g. with nomic-embed-text.
+ */
+export function createOllamaEmbeddingProvider({ baseUrl }: Omit<ProviderConfig, "provider">, model: string): EmbeddingProvider {
+  return {
+    id: `ollama:${model}`,
+    async embed(texts, signal) {
+      const response = await fetchProvider(`${baseUrl || OLLAMA_BASE_URL}/api/embed`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model, input: texts }),
+        signal,
+      }, "Ollama");
+      await ensureOk(response, "Ollama");
+
+      const data = await response.json();
+      return data.embeddings;
+    },
+  };
+}
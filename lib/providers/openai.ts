@@ -0,0 +1,255 @@
+import type { AnthropicMessage, SystemPrompt, ToolDefinition } from "@/hooks/useSandpackAgent";
+import type { EmbeddingProvider } from "@/lib/codeIndex";
+import { readServerSentEvents } from "@/lib/streaming";
+import { ensureOk, fetchProvider } from "@/lib/providers/errors";
+import type { LLMResponse, ProviderAdapter, ProviderConfig } from "@/lib/providers/types";
+
+export const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// Normalize string or block content into an array of content blocks
+export const toContentBlocks = (content: AnthropicMessage["content"]): any[] =>
+  typeof content === "string" ? [{ type: "text", text: content }] : content || [];
+
+// Join the text blocks of a message, ignoring everything else
+export const joinText = (blocks: any[]) =>
+  blocks
+    .filter((block) => block.type === "text" && block.text)
+    .map((block) => block.text)
+    .join("\n\n");
+
+// Backends without system blocks get the whole system prompt as one string
+export const systemPromptText = (system: SystemPrompt | undefined) =>
+  system ? joinText(toContentBlocks(system)) : "";
+
+// tool_result content may be a string or an array of text blocks
+export const toolResultToString = (content: any): string =>
+  typeof content === "string" ? content : joinText(toContentBlocks(content));
+
+const STOP_REASONS: Record<string, LLMResponse["stop_reason"]> = {
+  stop: "end_turn",
+  tool_calls: "tool_use",
+  function_call: "tool_use",
+  length: "max_tokens",
+};
+
+/**
+ * Translate canonical messages into Chat Completions messages: tool_use blocks become
+ * assistant `tool_calls` and each tool_result becomes its own `tool` message.
+ */
+export function toOpenAIMessages(system: SystemPrompt | undefined, messages: AnthropicMessage[]) {
+  const result: any[] = [];
+  if (system) {
+    result.push({ role: "system", content: systemPromptText(system) });
+  }
+
+  for (const message of messages) {
+    const blocks = toContentBlocks(message.content);
+
+    if (message.role === "assistant") {
+      const toolCalls = blocks
+        .filter((block) => block.type === "tool_use")
+        .map((block) => ({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        }));
+      result.push({
+        role: "assistant",
+        content: joinText(blocks) || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    for (const block of blocks.filter((block) => block.type === "tool_result")) {
+      result.push({
+        role: "tool",
+        tool_call_id: block.tool_use_id,
+        content: toolResultToString(block.content),
+      });
+    }
+    const text = joinText(blocks);
+    if (text) {
+      result.push({ role: "user", content: text });
+    }
+  }
+
+  return result;
+}
+
+export function toOpenAITools(tools: ToolDefinition[]) {
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  }));
+}
+
+// Parse tool call arguments, keeping malformed JSON visible to the model instead of throwing
+const parseArguments = (args: any) => {
+  if (typeof args !== "string") return args ?? {};
+  if (!args.trim()) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return { _raw_arguments: args };
+  }
+};
+
+export function fromOpenAIResponse(data: any): LLMResponse {
+  const choice = data.choices?.[0];
+  const message = choice?.message || {};
+  const content: any[] = [];
+
+  if (message.content) {
+    content.push({ type: "text", text: message.content });
+  }
+  for (const toolCall of message.tool_calls || []) {
+    content.push({
+      type: "tool_use",
+      id: toolCall.id,
+      name: toolCall.function?.name,
+      input: parseArguments(toolCall.function?.arguments),
+    });
+  }
+
+  return {
+    id: data.id,
+    role: "assistant",
+    model: data.model,
+    content,
+    stop_reason: STOP_REASONS[choice?.finish_reason] ?? "end_turn",
+    // Cached prompt tokens are reported apart from the rest, as Anthropic does
+    usage: data.usage && {
+      input_tokens: (data.usage.prompt_tokens ?? 0) - (data.usage.prompt_tokens_details?.cached_tokens ?? 0),
+      output_tokens: data.usage.completion_tokens ?? 0,
+      cache_read_input_tokens: data.usage.prompt_tokens_details?.cached_tokens ?? 0,
+    },
+  };
+}
+
+/**
+ * Adapter for OpenAI Chat Completions and compatible servers (llama.cpp, vLLM,
+ * LM Studio, Ollama's /v1 endpoint). The API key is optional for local servers.
+ */
+export function createOpenAIAdapter({ apiKey, baseUrl }: Omit<ProviderConfig, "provider">): ProviderAdapter {
+  return {
+    id: "openai",
+    async createMessage(request, stream, signal) {
+      const tools = request.tools && request.tools.length > 0 ? toOpenAITools(request.tools) : undefined;
+      const response = await fetchProvider(`${baseUrl || OPENAI_BASE_URL}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          messages: toOpenAIMessages(request.system, request.messages),
+          ...(tools ? { tools } : {}),
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          stream: !!stream,
+          // Streams only report usage in a final chunk when asked to
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+        }),
+        signal,
+      }, "the OpenAI-compatible server");
+
+      await ensureOk(response, "the OpenAI-compatible server");
+
+      if (!stream) {
+        return fromOpenAIResponse(await response.json());
+      }
+
+      // Reassemble the streamed chunks into a single completion
+      let text = "";
+      let finishReason: string | undefined;
+      let usage: any;
+      let id: string | undefined;
+      let model: string | undefined;
+      const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+      for await (const chunk of readServerSentEvents(response)) {
+        id = id || chunk.id;
+        model = model || chunk.model;
+        usage = chunk.usage || usage;
+        const choice = chunk.choices?.[0];
+        if (!choice) continue;
+        finishReason = choice.finish_reason || finishReason;
+
+        const delta = choice.delta || {};
+        if (delta.content) {
+          text += delta.content;
+          stream.onTextDelta?.(delta.content);
+        }
+
+        for (const toolCallDelta of delta.tool_calls || []) {
+          const index = toolCallDelta.index ?? toolCalls.length;
+          if (!toolCalls[index]) {
+            toolCalls[index] = {
+              id: toolCallDelta.id || `call_${index}`,
+              name: toolCallDelta.function?.name || "",
+              arguments: "",
+            };
+            stream.onToolUseStart?.({ id: toolCalls[index].id, name: toolCalls[index].name });
+          }
+          if (toolCallDelta.function?.arguments) {
+            toolCalls[index].arguments += toolCallDelta.function.arguments;
+            stream.onToolUseDelta?.(toolCalls[index].id, toolCalls[index].arguments);
+          }
+        }
+      }
+
+      return fromOpenAIResponse({
+        id,
+        model,
+        usage,
+        choices: [
+          {
+            finish_reason: finishReason,
+            message: {
+              content: text || null,
+              tool_calls: toolCalls.filter(Boolean).map((toolCall) => ({
+                id: toolCall.id,
+                function: { name: toolCall.name, arguments: toolCall.arguments },
+              })),
+            },
+          },
+        ],
+      });
+    },
+  };
+}
+
+/**
+ * Embeddings from an OpenAI-compatible /embeddings endpoint, for ranking codebase_search
+ * results by meaning as well as by keywords.
+ */
+export function createOpenAIEmbeddingProvider(
+  { apiKey, baseUrl }: Omit<ProviderConfig, "provider">,
+  model: string
+): EmbeddingProvider {
+  return {
+    id: `openai:${model}`,
+    async embed(texts, signal) {
+      const response = await fetchProvider(`${baseUrl || OPENAI_BASE_URL}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, input: texts }),
+        signal,
+      }, "the OpenAI-compatible server");
+      await ensureOk(response, "the OpenAI-compatible server");
+
+      const data = await response.json();
+      // Results carry their input index and are not guaranteed to be in order
+      return [...data.data].sort((a: any, b: any) => a.index - b.index).map((item: any) => item.embedding);
+    },
+  };
+}
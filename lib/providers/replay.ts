@@ -0,0 +1,256 @@
+import type { AnthropicMessage, CallLLMFunction, LLMStreamCallbacks, SystemPrompt } from "@/hooks/useSandpackAgent";
+import { systemPromptText, toContentBlocks } from "@/lib/providers/openai";
+import type { LLMResponse } from "@/lib/providers/types";
+
+// Checks a replayed step makes against the request the agent sent
+export interface ReplayExpectation {
+  // Exact number of API messages in the request
+  messageCount?: number;
+  // Substring the last message (text or tool results) must contain
+  lastMessageIncludes?: string;
+  // tool_use ids that the last message must answer with tool_result blocks
+  toolResultIds?: string[];
+  // Tools that must be offered to the model
+  toolNames?: string[];
+  // Substring the system prompt must contain
+  systemIncludes?: string;
+}
+
+export interface ReplayStep {
+  expect?: ReplayExpectation;
+  response: LLMResponse;
+}
+
+// A recorded or hand-written session, stored as JSON
+export interface ReplayFixture {
+  version: 1;
+  recordedAt?: string;
+  steps: ReplayStep[];
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayError";
+  }
+}
+
+// Flatten a message into searchable text, including tool result payloads
+const messageText = (message: AnthropicMessage) =>
+  toContentBlocks(message.content)
+    .map((block) => {
+      if (block.type === "text") return block.text;
+      if (block.type === "tool_result") {
+        return typeof block.content === "string" ? block.content : JSON.stringify(block.content);
+      }
+      return "";
+    })
+    .join("\n");
+
+/**
+ * Check that messages form a valid Anthropic sequence: the conversation starts with
+ * the user, roles alternate, and every tool_use is answered by a tool_result in the
+ * next user message. Returns a description of each problem found.
+ */
+export function validateMessageSequence(messages: AnthropicMessage[]): string[] {
+  const problems: string[] = [];
+
+  if (messages.length > 0 && messages[0].role !== "user") {
+    problems.push("First message must come from the user");
+  }
+
+  messages.forEach((message, index) => {
+    const blocks = toContentBlocks(message.content);
+    if (blocks.length === 0) {
+      problems.push(`Message ${index} has no content`);
+    }
+
+    if (index > 0 && messages[index - 1].role === message.role) {
+      problems.push(`Messages ${index - 1} and ${index} are both from the ${message.role}`);
+    }
+
+    if (message.role !== "assistant") return;
+
+    const toolUseIds = blocks.filter((block) => block.type === "tool_use").map((block) => block.id);
+    if (toolUseIds.length === 0) return;
+
+    // A trailing tool_use is reported once, after the loop
+    const next = messages[index + 1];
+    if (!next) return;
+    const answered = new Set(
+      toContentBlocks(next.content)
+        .filter((block) => block.type === "tool_result")
+        .map((block) => block.tool_use_id)
+    );
+    for (const id of toolUseIds) {
+      if (!answered.has(id)) {
+        problems.push(`tool_use ${id} in message ${index} has no tool_result in the next message`);
+      }
+    }
+  });
+
+  const last = messages[messages.length - 1];
+  if (last && last.role === "assistant" && toContentBlocks(last.content).some((block) => block.type === "tool_use")) {
+    problems.push("Request ends with unanswered tool_use blocks");
+  }
+
+  return problems;
+}
+
+function checkExpectation(
+  expectation: ReplayExpectation,
+  messages: AnthropicMessage[],
+  systemPrompt: string,
+  tools: any[]
+): string[] {
+  const problems: string[] = [];
+  const last = messages[messages.length - 1];
+
+  if (expectation.messageCount !== undefined && messages.length !== expectation.messageCount) {
+    problems.push(`expected ${expectation.messageCount} messages, got ${messages.length}`);
+  }
+
+  if (expectation.lastMessageIncludes !== undefined && !(last && messageText(last).includes(expectation.lastMessageIncludes))) {
+    problems.push(`expected the last message to include "${expectation.lastMessageIncludes}"`);
+  }
+
+  if (expectation.toolResultIds) {
+    const answered = last
+      ? toContentBlocks(last.content).filter((block) => block.type === "tool_result").map((block) => block.tool_use_id)
+      : [];
+    const missing = expectation.toolResultIds.filter((id) => !answered.includes(id));
+    if (missing.length > 0) {
+      problems.push(`expected tool_result blocks for ${missing.join(", ")}`);
+    }
+  }
+
+  if (expectation.toolNames) {
+    const offered = tools.map((tool) => tool.name);
+    const missing = expectation.toolNames.filter((name) => !offered.includes(name));
+    if (missing.length > 0) {
+      problems.push(`expected tools ${missing.join(", ")} to be offered`);
+    }
+  }
+
+  if (expectation.systemIncludes !== undefined && !systemPrompt.includes(expectation.systemIncludes)) {
+    problems.push(`expected the system prompt to include "${expectation.systemIncludes}"`);
+  }
+
+  return problems;
+}
+
+// Replay a response through the stream callbacks the way a streaming provider would
+function emitStream(response: LLMResponse, stream: LLMStreamCallbacks) {
+  for (const block of response.content) {
+    if (block.type === "text" && block.text) {
+      stream.onTextDelta?.(block.text);
+    } else if (block.type === "tool_use") {
+      stream.onToolUseStart?.({ id: block.id, name: block.name });
+      stream.onToolUseDelta?.(block.id, JSON.stringify(block.input ?? {}));
+    }
+  }
+}
+
+export type ReplayCallLLM = CallLLMFunction & {
+  // Number of scripted responses not yet consumed
+  remaining: () => number;
+  // Requests received so far, for assertions beyond the built-in expectations
+  requests: Array<{ messages: AnthropicMessage[]; systemPrompt: string; tools: any[] }>;
+  // Throws if any scripted response was never requested
+  assertDone: () => void;
+};
+
+/**
+ * A CallLLMFunction that answers from a script instead of a model. Every request is
+ * checked for a valid message sequence and against the step's expectations, and a
+ * ReplayError is thrown on the first mismatch or when the script runs out.
+ */
+export function createReplayCallLLM(fixture: ReplayFixture | ReplayStep[]): ReplayCallLLM {
+  const steps = Array.isArray(fixture) ? fixture : fixture.steps;
+  let cursor = 0;
+  const requests: ReplayCallLLM["requests"] = [];
+
+  const callLLM = async (
+    messages: AnthropicMessage[],
+    system: SystemPrompt,
+    tools: any[],
+    stream?: LLMStreamCallbacks,
+    signal?: AbortSignal
+  ) => {
+    signal?.throwIfAborted();
+    const systemPrompt = systemPromptText(system);
+    requests.push({ messages: structuredClone(messages), systemPrompt, tools });
+
+    const step = steps[cursor];
+    if (!step) {
+      throw new ReplayError(`Replay script exhausted: received request ${cursor + 1} but only ${steps.length} responses are scripted`);
+    }
+    cursor++;
+
+    const problems = [
+      ...validateMessageSequence(messages),
+      ...(step.expect ? checkExpectation(step.expect, messages, systemPrompt, tools) : []),
+    ];
+    if (problems.length > 0) {
+      throw new ReplayError(`Request ${cursor} did not match the script:\n- ${problems.join("\n- ")}`);
+    }
+
+    const response = structuredClone(step.response);
+    if (stream) {
+      emitStream(response, stream);
+    }
+    return response;
+  };
+
+  return Object.assign(callLLM, {
+    remaining: () => steps.length - cursor,
+    requests,
+    assertDone: () => {
+      if (cursor < steps.length) {
+        throw new ReplayError(`${steps.length - cursor} scripted responses were never requested`);
+      }
+    },
+  });
+}
+
+/**
+ * Captures the responses of a real CallLLMFunction, with expectations derived from
+ * each request, so a live session can be saved and replayed offline.
+ */
+export function createLLMRecorder() {
+  const steps: ReplayStep[] = [];
+
+  const record = (messages: AnthropicMessage[], tools: any[], response: LLMResponse) => {
+    const last = messages[messages.length - 1];
+    const toolResultIds = last
+      ? toContentBlocks(last.content).filter((block) => block.type === "tool_result").map((block) => block.tool_use_id)
+      : [];
+    const lastText = last ? toContentBlocks(last.content).find((block) => block.type === "text")?.text : undefined;
+
+    steps.push({
+      expect: {
+        messageCount: messages.length,
+        ...(toolResultIds.length > 0 ? { toolResultIds } : {}),
+        ...(lastText ? { lastMessageIncludes: lastText.slice(0, 200) } : {}),
+        toolNames: tools.map((tool) => tool.name),
+      },
+      response: structuredClone(response),
+    });
+  };
+
+  // Wrap a CallLLMFunction so every completed response is recorded
+  const wrap = (callLLM: CallLLMFunction): CallLLMFunction =>
+    async (messages, systemPrompt, tools, stream, signal) => {
+      const response = await callLLM(messages, systemPrompt, tools, stream, signal);
+      record(messages, tools, response);
+      return response;
+    };
+
+  const fixture = (): ReplayFixture => ({
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    steps: structuredClone(steps),
+  });
+
+  return { record, wrap, fixture };
+}
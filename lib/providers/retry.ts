@@ -0,0 +1,81 @@
+import type { LLMStreamCallbacks } from "@/hooks/useSandpackAgent";
+import { ProviderError, ProviderNetworkError } from "@/lib/providers/errors";
+import type { ProviderAdapter } from "@/lib/providers/types";
+
+export interface RetryPolicy {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries: number;
+  // The delay before the first retry, doubled for each retry after it
+  baseDelayMs: number;
+  // No delay is longer than this, whatever the backend asks for
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+};
+
+// Rate limits, overload (Anthropic's 529), timeouts and server errors usually pass
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Whether a failed request is worth repeating: a transient status from the backend, or a
+ * network error before any response. Cancelled requests and client errors are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderNetworkError) return true;
+  return error instanceof ProviderError && error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+}
+
+/**
+ * How long to wait before retry number `attempt` (from 1): the backend's retry-after when
+ * it sent one, otherwise exponential backoff with jitter, so clients that failed together
+ * do not retry together.
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, policy.maxDelayMs);
+  const ceiling = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Wrap an adapter so transient failures are retried. Streamed output from a failed attempt
+ * is reported through the stream's onRetry callback, so callers can discard it before the
+ * next attempt streams the response again. The last error is thrown when retries run out.
+ */
+export function withRetry(adapter: ProviderAdapter, policy: RetryPolicy = DEFAULT_RETRY_POLICY): ProviderAdapter {
+  return {
+    ...adapter,
+    async createMessage(request, stream?: LLMStreamCallbacks, signal?: AbortSignal) {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await adapter.createMessage(request, stream, signal);
+        } catch (error) {
+          if (signal?.aborted || attempt > policy.maxRetries || !isRetryableError(error)) {
+            throw error;
+          }
+          const delayMs = getRetryDelay(attempt, policy, error instanceof ProviderError ? error.retryAfterMs : undefined);
+          stream?.onRetry?.({ attempt, maxRetries: policy.maxRetries, delayMs, error: error as Error });
+          await sleep(delayMs, signal);
+        }
+      }
+    },
+  };
+}
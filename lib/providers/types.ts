@@ -0,0 +1,56 @@
+import type { AnthropicMessage, LLMStreamCallbacks, SystemPrompt, ToolDefinition } from "@/hooks/useSandpackAgent";
+
+export type ProviderId = "anthropic" | "openai" | "ollama";
+
+// Connection details for one backend
+export interface ProviderConfig {
+  provider: ProviderId;
+  // Overrides the provider's default endpoint, e.g. a local OpenAI-compatible server
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+// How a response is generated. Backends without extended thinking ignore its budget.
+export interface GenerationSettings {
+  model: string;
+  // Includes the thinking budget when there is one
+  maxTokens: number;
+  // The provider's default when unset
+  temperature?: number;
+  // Tokens the model may think for before answering, or unset to answer directly
+  thinkingBudget?: number;
+}
+
+// A provider-neutral request. Messages and tools use the agent's canonical
+// (Anthropic Messages) shape and are translated by each adapter.
+export interface LLMRequest extends GenerationSettings {
+  system?: SystemPrompt;
+  messages: AnthropicMessage[];
+  tools?: ToolDefinition[];
+}
+
+export interface LLMUsage {
+  input_tokens: number;
+  output_tokens: number;
+  [key: string]: any;
+}
+
+// Every adapter resolves with a response in the Anthropic Messages shape, so the
+// agent loop does not need to know which backend produced it
+export interface LLMResponse {
+  id?: string;
+  role: "assistant";
+  content: any[];
+  model?: string;
+  stop_reason?: "end_turn" | "tool_use" | "max_tokens" | "stop_sequence" | null;
+  usage?: LLMUsage;
+}
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  createMessage(
+    request: LLMRequest,
+    stream?: LLMStreamCallbacks,
+    signal?: AbortSignal
+  ): Promise<LLMResponse>;
+}
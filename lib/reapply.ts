@@ -0,0 +1,107 @@
+import type { AnthropicMessage } from "@/hooks/useSandpackAgent";
+import { createHunks, formatUnifiedDiff } from "@/lib/diff";
+import { EditError, applyPatch, insertAtLine, replaceUnique } from "@/lib/edits";
+
+// The tools whose input describes an edit that reapply can retry
+export const REAPPLYABLE_TOOLS = new Set(["edit_file", "str_replace", "insert_at_line", "apply_patch"]);
+
+// An edit the model asked for, kept whether or not it applied cleanly
+export interface ProposedEdit {
+  toolName: string;
+  input: Record<string, any>;
+  // The file when the edit was proposed, null if it did not exist
+  baseContent: string | null;
+  timestamp: Date;
+}
+
+// Describe the intended edit in the words of the tool call, for the apply model
+function describeEdit(edit: ProposedEdit): string {
+  const { input } = edit;
+  switch (edit.toolName) {
+    case "edit_file":
+      return `Replace the file with this content:\n\`\`\`\n${input.content}\n\`\`\``;
+    case "str_replace":
+      return `Replace${input.replace_all ? " every occurrence of" : ""} this text:\n\`\`\`\n${input.old_str}\n\`\`\`\nwith:\n\`\`\`\n${input.new_str}\n\`\`\``;
+    case "insert_at_line":
+      return `Insert before line ${input.line}:\n\`\`\`\n${input.text}\n\`\`\``;
+    case "apply_patch":
+      return `Apply this unified diff:\n\`\`\`diff\n${input.patch}\n\`\`\``;
+    default:
+      return JSON.stringify(input);
+  }
+}
+
+export const APPLY_SYSTEM_PROMPT = `You apply code edits that another model proposed but that could not be applied mechanically.
+You receive the current content of a file and the intended edit. The edit may have been written against an older version of the file, so reconcile it with the current content: keep everything the edit does not mean to change, and make the change it intends.
+Reply with the complete updated file in a single code block and nothing else.`;
+
+/**
+ * The request for the apply model: the current file and the edit to reconcile with it.
+ */
+export function buildApplyRequest(filePath: string, currentContent: string, edit: ProposedEdit): AnthropicMessage[] {
+  return [
+    {
+      role: "user",
+      content: `File: ${filePath}\n\nCurrent content:\n\`\`\`\n${currentContent}\n\`\`\`\n\nIntended edit:\n${describeEdit(edit)}`,
+    },
+  ];
+}
+
+/**
+ * Take the file out of the apply model's reply, which should be one code block.
+ */
+export function extractAppliedFile(text: string): string {
+  const fenced = text.match(/```[^\n]*\n([\s\S]*?)\n?```/);
+  if (fenced) {
+    return fenced[1];
+  }
+  if (!text.trim()) {
+    throw new EditError("The apply model returned an empty reply");
+  }
+  return text;
+}
+
+// Turn old and new text into a patch without line numbers, so applyPatch places it by content
+const toLoosePatch = (oldText: string, newText: string) =>
+  [
+    "@@ @@",
+    ...oldText.split("\n").map((line) => `-${line}`),
+    ...newText.split("\n").map((line) => `+${line}`),
+  ].join("\n");
+
+/**
+ * Reconcile a proposed edit with the current file without a model. Edits are replayed
+ * with looser matching: whole-file rewrites are turned into a patch against the file
+ * they were written for and that patch is fitted onto the current content.
+ */
+export function mergeProposedEdit(currentContent: string, edit: ProposedEdit): string {
+  const { input } = edit;
+  switch (edit.toolName) {
+    case "edit_file": {
+      if (edit.baseContent === null || edit.baseContent === currentContent) {
+        return input.content;
+      }
+      if (createHunks(edit.baseContent, input.content).length === 0) {
+        return currentContent;
+      }
+      return applyPatch(currentContent, formatUnifiedDiff("file", edit.baseContent, input.content)).content;
+    }
+    case "str_replace": {
+      try {
+        return replaceUnique(currentContent, input.old_str, input.new_str ?? "", !!input.replace_all).content;
+      } catch (error) {
+        if (!(error instanceof EditError) || input.replace_all) throw error;
+        // Retry ignoring whitespace differences
+        return applyPatch(currentContent, toLoosePatch(input.old_str, input.new_str ?? "")).content;
+      }
+    }
+    case "insert_at_line": {
+      const lineCount = currentContent.replace(/\n$/, "").split("\n").length;
+      return insertAtLine(currentContent, Math.min(Math.max(1, Number(input.line) || 1), lineCount + 1), input.text ?? "");
+    }
+    case "apply_patch":
+      return applyPatch(currentContent, input.patch ?? "").content;
+    default:
+      throw new EditError(`${edit.toolName} edits cannot be reapplied`);
+  }
+}
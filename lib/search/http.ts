@@ -0,0 +1,70 @@
+import type { SearchProvider, SearchResult } from "@/lib/search/types";
+
+export class SearchError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "SearchError";
+    this.status = status;
+  }
+}
+
+export interface HttpSearchOptions {
+  // Called as GET {endpoint}?q={query}&limit={limit}
+  endpoint: string;
+  label?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A provider for a team's own search service. The endpoint answers GET requests with
+ * JSON: an array of results, or an object with a `results` array. Each result needs a
+ * title and url, and a snippet (also read from `description` or `content`).
+ */
+export function createHttpSearchProvider({ endpoint, label, headers }: HttpSearchOptions): SearchProvider {
+  let name = label ?? endpoint;
+  try {
+    name = label ?? new URL(endpoint).host;
+  } catch {
+    // An invalid endpoint fails when searching, where the model sees the error
+  }
+
+  return {
+    id: "http",
+    label: name,
+    async search(query, { limit = 5, signal } = {}) {
+      const url = new URL(endpoint);
+      url.searchParams.set("q", query);
+      url.searchParams.set("limit", String(limit));
+
+      const response = await fetch(url, { headers, signal });
+      if (!response.ok) {
+        throw new SearchError(`${name} returned ${response.status} ${response.statusText}`, response.status);
+      }
+
+      let data: any;
+      try {
+        data = await response.json();
+      } catch {
+        throw new SearchError(`${name} did not return JSON`);
+      }
+      const items = Array.isArray(data) ? data : data?.results;
+      if (!Array.isArray(items)) {
+        throw new SearchError(`${name} returned JSON without a results array`);
+      }
+
+      const results: SearchResult[] = items
+        .filter((item) => item && typeof item.title === "string" && typeof item.url === "string")
+        .slice(0, limit)
+        .map((item) => ({
+          title: item.title,
+          url: item.url,
+          snippet: String(item.snippet ?? item.description ?? item.content ?? ""),
+          source: "web",
+          ...(typeof item.score === "number" ? { score: item.score } : {}),
+        }));
+      return { results };
+    },
+  };
+}
@@ -0,0 +1,9 @@
+export * from "@/lib/search/types";
+export { SearchError, createHttpSearchProvider, type HttpSearchOptions } from "@/lib/search/http";
+export {
+  createLocalDocsProvider,
+  fetchPackageReadme,
+  splitMarkdownSections,
+  type LocalDocsOptions,
+} from "@/lib/search/local";
+export { REACT_DOCS } from "@/lib/search/reactDocs";
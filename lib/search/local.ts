@@ -0,0 +1,177 @@
+import { BM25Index, tokenize } from "@/lib/bm25";
+import { REACT_DOCS } from "@/lib/search/reactDocs";
+import type { SearchDocument, SearchProvider, SearchResult } from "@/lib/search/types";
+
+// jsDelivr serves files from the npm registry with CORS enabled
+const PACKAGE_CDN_URL = "https://cdn.jsdelivr.net/npm";
+const README_NAMES = ["README.md", "readme.md", "Readme.md"];
+
+const SNIPPET_LENGTH = 240;
+
+export interface LocalDocsOptions {
+  // The project's files by path, read on every search so edits to its docs are picked up
+  getFiles: () => Record<string, string>;
+  // Fetch a dependency's README, null if it has none; without this, dependencies are not indexed
+  fetchReadme?: (packageName: string, signal?: AbortSignal) => Promise<string | null>;
+}
+
+/**
+ * Fetch the README of the latest published version of an npm package.
+ */
+export async function fetchPackageReadme(packageName: string, signal?: AbortSignal): Promise<string | null> {
+  for (const fileName of README_NAMES) {
+    const response = await fetch(`${PACKAGE_CDN_URL}/${packageName}/${fileName}`, { signal });
+    if (response.ok) {
+      return response.text();
+    }
+    if (response.status !== 404) {
+      throw new Error(`Failed to fetch the README of ${packageName} (${response.status} ${response.statusText})`);
+    }
+  }
+  return null;
+}
+
+// GitHub-style anchor for a heading
+const slugify = (heading: string) =>
+  heading.toLowerCase().replace(/[^\w\s-]/g, "").trim().replace(/\s+/g, "-");
+
+/**
+ * Split a markdown document into one document per heading, so results point at the
+ * section that answers the query. Headings inside code fences are not split on.
+ */
+export function splitMarkdownSections(document: SearchDocument): SearchDocument[] {
+  const sections: SearchDocument[] = [];
+  let heading: string | null = null;
+  let line = 1;
+  let body: string[] = [];
+  let inFence = false;
+
+  const anchor = (text: string, startLine: number) =>
+    document.source === "project" ? `${document.url}#L${startLine}` : `${document.url}#${slugify(text)}`;
+
+  const flush = () => {
+    const content = body.join("\n").trim();
+    if (content || heading) {
+      sections.push({
+        ...document,
+        title: heading ? `${document.title} › ${heading}` : document.title,
+        url: heading ? anchor(heading, line) : document.url,
+        content,
+      });
+    }
+  };
+
+  document.content.split("\n").forEach((text, index) => {
+    if (/^\s*(```|~~~)/.test(text)) inFence = !inFence;
+    const match = !inFence && text.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      flush();
+      heading = match[1];
+      line = index + 1;
+      body = [];
+    } else {
+      body.push(text);
+    }
+  });
+  flush();
+
+  return sections;
+}
+
+// The part of a section around the first line that mentions the query
+function makeSnippet(content: string, query: string): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (text.length <= SNIPPET_LENGTH) return text;
+
+  const lower = text.toLowerCase();
+  const positions = tokenize(query)
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position !== -1);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - SNIPPET_LENGTH / 4);
+  const snippet = text.slice(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? "..." : ""}${snippet}${start + SNIPPET_LENGTH < text.length ? "..." : ""}`;
+}
+
+// Names of the dependencies declared in package.json
+function readDependencies(packageJson: string | undefined): string[] {
+  if (!packageJson) return [];
+  try {
+    const { dependencies = {}, devDependencies = {} } = JSON.parse(packageJson);
+    return [...new Set([...Object.keys(dependencies), ...Object.keys(devDependencies)])].sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The default web_search provider. It needs no search service: it ranks the bundled
+ * React docs, the project's markdown files and the READMEs of its dependencies with
+ * BM25. READMEs are fetched once per package and kept for the session.
+ */
+export function createLocalDocsProvider({ getFiles, fetchReadme }: LocalDocsOptions): SearchProvider {
+  // README by package name; null when the package has none
+  const readmes = new Map<string, string | null>();
+
+  return {
+    id: "local-docs",
+    label: "local documentation index",
+    async search(query, { limit = 5, signal } = {}) {
+      const files = getFiles();
+      const documents: SearchDocument[] = [...REACT_DOCS];
+      const notes: string[] = [];
+
+      for (const [path, content] of Object.entries(files)) {
+        if (/\.mdx?$/i.test(path) && !path.includes("/node_modules/")) {
+          documents.push(...splitMarkdownSections({ title: path.replace(/^\//, ""), url: path, content, source: "project" }));
+        }
+      }
+
+      const dependencies = readDependencies(files["/package.json"]);
+      if (fetchReadme) {
+        const unreachable: string[] = [];
+        await Promise.all(
+          dependencies
+            .filter((name) => !readmes.has(name))
+            .map(async (name) => {
+              try {
+                readmes.set(name, await fetchReadme(name, signal));
+              } catch (error) {
+                if (signal?.aborted) throw error;
+                // Not cached, so the next search tries again
+                unreachable.push(name);
+              }
+            })
+        );
+        if (unreachable.length > 0) {
+          notes.push(`Could not fetch the READMEs of ${unreachable.join(", ")}, so they were not searched.`);
+        }
+
+        for (const name of dependencies) {
+          const readme = readmes.get(name);
+          if (readme) {
+            documents.push(...splitMarkdownSections({ title: name, url: `https://www.npmjs.com/package/${name}`, content: readme, source: "dependency" }));
+          }
+        }
+      } else if (dependencies.length > 0) {
+        notes.push("Dependency READMEs are not indexed.");
+      }
+
+      const index = new BM25Index<SearchDocument>();
+      documents.forEach((document, i) => {
+        // Titles are short, so repeat them to weigh a match in the title over one in the body
+        index.add(String(i), `${document.title} ${document.title} ${document.content}`, document);
+      });
+
+      const results: SearchResult[] = index.search(query, limit).map(({ value, score }) => ({
+        title: value.title,
+        url: value.url,
+        snippet: makeSnippet(value.content, query),
+        source: value.source,
+        score: Math.round(score * 100) / 100,
+      }));
+
+      return { results, ...(notes.length > 0 ? { notes } : {}) };
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import type { SearchDocument } from "@/lib/search/types";
+
+const page = (title: string, path: string, content: string): SearchDocument => ({
+  title,
+  url: `https://react.dev${path}`,
+  content,
+  source: "react",
+});
+
+/**
+ * Summaries of the React reference and the main guides on react.dev, bundled so
+ * web_search can answer common React questions without a network connection.
+ */
+export const REACT_DOCS: SearchDocument[] = [
+  page("useState", "/reference/react/useState",
+    "const [state, setState] = useState(initialState) adds a state variable to a component. The set function updates the state and triggers a re-render; the new value is only visible on the next render, because state behaves like a snapshot. Pass an updater function, setCount(c => c + 1), to compute the next state from the pending one when queueing several updates. Pass an initializer function, useState(createInitialState), so expensive initial values are computed only once. Objects and arrays in state must be replaced, not mutated: setForm({ ...form, name }). Calling the set function with a value equal by Object.is skips the re-render."),
+  page("useEffect", "/reference/react/useEffect",
+    "useEffect(setup, dependencies?) synchronizes a component with an external system such as a subscription, a timer, a non-React widget or a network request. The setup function runs after the component is committed to the screen and may return a cleanup function, which runs before the effect re-runs and when the component unmounts. The dependency array lists every reactive value the effect reads; the effect re-runs when one of them changes by Object.is. An empty array runs the effect only after mount. In Strict Mode during development React runs setup and cleanup one extra time to surface missing cleanup. Avoid effects for data you can compute during rendering or for handling user events."),
+  page("useContext", "/reference/react/useContext",
+    "const value = useContext(SomeContext) reads the value of the closest SomeContext provider above the component. Create a context with createContext(defaultValue) and provide it with <SomeContext value={value}> (or <SomeContext.Provider value={value}> in older versions). When the provider value changes, every component reading it re-renders. Memoize object and function values passed to a provider with useMemo and useCallback to avoid needless re-renders. Without a provider the default value from createContext is returned."),
+  page("useReducer", "/reference/react/useReducer",
+    "const [state, dispatch] = useReducer(reducer, initialArg, init?) manages state with a reducer function (state, action) => nextState. dispatch(action) schedules an update; the reducer must be pure and return a new object instead of mutating the current state. Prefer useReducer over useState when the next state depends on the previous one in complex ways or when many event handlers update the same state."),
+  page("useRef", "/reference/react/useRef",
+    "const ref = useRef(initialValue) returns an object whose current property persists across renders. Changing ref.current does not trigger a re-render, so refs hold values that are not needed for rendering, such as timeout ids or DOM nodes. Pass the ref to a JSX element's ref attribute to access the DOM node: <input ref={inputRef} />, then inputRef.current.focus(). Do not read or write ref.current during rendering, except for lazy initialization."),
+  page("useMemo", "/reference/react/useMemo",
+    "const cachedValue = useMemo(calculateValue, dependencies) caches the result of a calculation between re-renders. React recomputes the value only when a dependency changes by Object.is. Use it to skip expensive calculations or to keep an object reference stable when it is passed to a memo component or used as another hook's dependency. It is a performance optimization; code must still work without it."),
+  page("useCallback", "/reference/react/useCallback",
+    "const cachedFn = useCallback(fn, dependencies) returns the same function instance between renders until a dependency changes. It is useful when passing callbacks to components wrapped in memo or when a function is a dependency of useEffect. useCallback(fn, deps) is equivalent to useMemo(() => fn, deps)."),
+  page("useLayoutEffect", "/reference/react/useLayoutEffect",
+    "useLayoutEffect(setup, dependencies?) is a version of useEffect that fires before the browser repaints the screen. Use it to measure layout, for example reading an element's size to position a tooltip, and update state before the user sees the first paint. It blocks painting, so prefer useEffect when possible. It does not run during server rendering."),
+  page("useId", "/reference/react/useId",
+    "const id = useId() generates a unique ID that is stable across server and client rendering. Use it for accessibility attributes such as htmlFor and aria-describedby. Do not use it to generate keys for lists."),
+  page("useTransition", "/reference/react/useTransition",
+    "const [isPending, startTransition] = useTransition() marks state updates as non-blocking transitions. Updates inside startTransition can be interrupted by more urgent updates such as typing, and isPending is true while the transition renders. In React 19 the function passed to startTransition can be async, which is how Actions are built. Transitions cannot be used to control text inputs."),
+  page("useDeferredValue", "/reference/react/useDeferredValue",
+    "const deferredValue = useDeferredValue(value) lets part of the UI lag behind a fast-changing value. React first re-renders with the old value, then renders the new value in the background, which keeps inputs responsive while a slow list re-renders. Combine with memo on the slow component for the benefit to apply."),
+  page("useActionState", "/reference/react/useActionState",
+    "const [state, formAction, isPending] = useActionState(action, initialState) updates state based on the result of a form action. The action receives the previous state and the form data and returns the next state. Pass formAction to a <form action={formAction}> or a button's formAction. Added in React 19; earlier canaries called it useFormState in react-dom."),
+  page("useOptimistic", "/reference/react/useOptimistic",
+    "const [optimisticState, addOptimistic] = useOptimistic(state, updateFn) shows a different state while an async action is in progress, for example rendering a new message immediately while it is being sent. When the action finishes, the optimistic state is replaced by the real state."),
+  page("use", "/reference/react/use",
+    "const value = use(resource) reads the value of a Promise or a context. Unlike hooks, use can be called inside conditions and loops. When called with a Promise, the component suspends until it resolves, so it should be wrapped in a Suspense boundary, and an error boundary to handle rejections. Promises passed to use should be created outside rendering, for example in a Server Component or a cache, not recreated on every render."),
+  page("useSyncExternalStore", "/reference/react/useSyncExternalStore",
+    "const snapshot = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot?) subscribes a component to an external store. subscribe registers a callback and returns an unsubscribe function; getSnapshot must return the same value while the store has not changed, otherwise React re-renders endlessly."),
+  page("useImperativeHandle", "/reference/react/useImperativeHandle",
+    "useImperativeHandle(ref, createHandle, dependencies?) customizes the value exposed through a ref, for example exposing only focus and scrollIntoView methods instead of the whole DOM node. In React 19 ref is a regular prop for function components; earlier versions need forwardRef."),
+  page("memo", "/reference/react/memo",
+    "const MemoizedComponent = memo(Component, arePropsEqual?) skips re-rendering a component when its props are unchanged by shallow comparison. It only helps when props really stay the same, so object, array and function props usually need useMemo or useCallback in the parent. State changes and context changes inside the component still re-render it."),
+  page("lazy", "/reference/react/lazy",
+    "const Component = lazy(() => import('./Component.js')) defers loading a component's code until it is rendered for the first time. The import must resolve to a module whose default export is a component. Render lazy components inside <Suspense fallback={...}> to show a loading state. Declare lazy components at the top level of a module, not inside other components."),
+  page("forwardRef", "/reference/react/forwardRef",
+    "const Input = forwardRef(function Input(props, ref) { ... }) lets a component receive a ref and pass it to a child DOM node. In React 19 forwardRef is no longer needed for function components, which can take ref as a prop; it will be deprecated in a future version."),
+  page("createContext", "/reference/react/createContext",
+    "const SomeContext = createContext(defaultValue) creates a context that components can provide or read. Provide it by rendering <SomeContext value={...}> around a tree and read it with useContext(SomeContext) or use(SomeContext). The default value is used only when there is no matching provider above the component."),
+  page("startTransition", "/reference/react/startTransition",
+    "startTransition(action) marks a state update as a transition without a pending flag. It can be called outside components, for example from a data library. Use the useTransition hook inside components when you need isPending."),
+  page("<Suspense>", "/reference/react/Suspense",
+    "<Suspense fallback={<Loading />}>children</Suspense> displays a fallback until its children have finished loading. Components suspend while lazy code loads or while use reads a pending Promise, and with Suspense-enabled data frameworks. Nested Suspense boundaries reveal content in sequence. Updates inside a transition keep showing the already revealed content instead of the fallback."),
+  page("<StrictMode>", "/reference/react/StrictMode",
+    "<StrictMode> enables extra development-only checks for the tree inside it: components render twice to find impure rendering, effects run setup and cleanup an extra time to find missing cleanup, and deprecated APIs produce warnings. It does not affect production builds."),
+  page("<Fragment> (<>...</>)", "/reference/react/Fragment",
+    "<>...</> or <Fragment> groups elements without adding a wrapper node to the DOM. Use the explicit <Fragment key={id}> form when rendering fragments in a list, since the short syntax cannot take a key."),
+  page("<Profiler>", "/reference/react/Profiler",
+    "<Profiler id=\"App\" onRender={onRender}> measures how often a React tree renders and what each render costs. onRender receives the id, the phase (mount, update or nested-update), the actual and base duration, and the start and commit times. Profiling adds overhead and is disabled in production builds by default."),
+  page("createRoot", "/reference/react-dom/client/createRoot",
+    "const root = createRoot(domNode) creates a root for displaying React components inside a browser DOM node; root.render(<App />) renders into it and root.unmount() removes it. This replaced ReactDOM.render in React 18; ReactDOM.render was removed in React 19. Most apps call createRoot once, in the entry file such as src/index.js."),
+  page("hydrateRoot", "/reference/react-dom/client/hydrateRoot",
+    "hydrateRoot(domNode, reactNode) attaches React to HTML that was rendered on the server by react-dom/server. The client render must match the server output; mismatches produce hydration errors. Content that has to differ, such as timestamps, can use suppressHydrationWarning or be rendered in an effect."),
+  page("createPortal", "/reference/react-dom/createPortal",
+    "createPortal(children, domNode, key?) renders children into a different part of the DOM, for example a modal or tooltip appended to document.body. Events from inside the portal propagate to ancestors in the React tree, not the DOM tree."),
+  page("flushSync", "/reference/react-dom/flushSync",
+    "flushSync(callback) forces React to apply the updates inside the callback synchronously and update the DOM immediately. It can hurt performance and should be used rarely, for example before reading the DOM right after a state change for a third-party integration."),
+  page("Rules of Hooks", "/reference/rules/rules-of-hooks",
+    "Only call hooks at the top level of a function component or a custom hook: never inside conditions, loops, nested functions or after an early return, so React can match hook calls between renders. Only call hooks from React function components or from custom hooks whose names start with use. The eslint-plugin-react-hooks rules-of-hooks and exhaustive-deps rules check this."),
+  page("Components and hooks must be pure", "/reference/rules/components-and-hooks-must-be-pure",
+    "Rendering must be pure: given the same props, state and context, a component returns the same JSX and does not mutate values created outside it, such as props, state or module variables. Side effects belong in event handlers or effects. Local mutation of values created during the same render is fine."),
+  page("Rendering lists and keys", "/learn/rendering-lists",
+    "Render lists by mapping an array to JSX: items.map(item => <li key={item.id}>{item.name}</li>). Each element in a list needs a key that is unique among its siblings and stable across renders, usually an id from the data. Using the array index as a key causes bugs when items are reordered, inserted or removed. Keys are not passed as props; pass the id separately if the child needs it. The warning 'Each child in a list should have a unique key prop' means a key is missing."),
+  page("Conditional rendering", "/learn/conditional-rendering",
+    "Render JSX conditionally with if statements, the ternary operator cond ? <A /> : <B />, or the logical AND operator cond && <A />. Beware that {count && <List />} renders 0 when count is 0; use count > 0 && ... instead. Returning null from a component renders nothing."),
+  page("State as a snapshot", "/learn/state-as-a-snapshot",
+    "Setting state requests a new render; it does not change the state variable in the already running code. Inside an event handler, state keeps the value it had when that render happened, even after calling the set function or after a timeout. Use an updater function to base an update on the latest queued state."),
+  page("Updating objects and arrays in state", "/learn/updating-objects-in-state",
+    "Treat state as read-only. To update an object, create a new one with the spread syntax: setPerson({ ...person, name: 'Ann' }); nested objects need to be copied at each level. To update arrays use non-mutating methods: concat or [...arr, item] to add, filter to remove, map to replace, and copy before sort or reverse. Libraries such as Immer allow writing mutating-style code that produces new objects."),
+  page("Sharing state between components", "/learn/sharing-state-between-components",
+    "To make two components change together, lift their state up to their closest common parent and pass it down through props along with event handlers that update it. A component whose important information is driven by props is controlled; one driven by local state is uncontrolled."),
+  page("Reacting to input: controlled inputs", "/reference/react-dom/components/input",
+    "An <input value={text} onChange={e => setText(e.target.value)} /> is controlled: React keeps it in sync with state, and every keystroke must update that state or the input will not change. Use defaultValue for an uncontrolled input. For checkboxes use checked and onChange. The warning 'A component is changing an uncontrolled input to be controlled' appears when value switches from undefined to a defined value; initialize state with an empty string."),
+  page("Responding to events", "/learn/responding-to-events",
+    "Pass event handlers as props such as onClick={handleClick}, not onClick={handleClick()}, which would call it during rendering. Events propagate up the tree; call e.stopPropagation() to stop them and e.preventDefault() to prevent browser default behavior like form submission reloading the page."),
+  page("You might not need an effect", "/learn/you-might-not-need-an-effect",
+    "Effects are an escape hatch for synchronizing with external systems. Do not use an effect to transform data for rendering; compute it during rendering, with useMemo if it is expensive. Do not use an effect to handle user events; put that logic in the event handler. To reset state when a prop changes, pass a key to the component. Fetching data in effects needs cleanup to ignore stale responses."),
+  page("Synchronizing with effects: fetching data", "/learn/synchronizing-with-effects",
+    "When fetching data in an effect, guard against race conditions: set a flag like let ignore = false, check it before setting state, and set ignore = true in the cleanup function. In development Strict Mode the effect runs twice, which this cleanup handles. Frameworks and libraries such as React Query provide caching and avoid network waterfalls."),
+  page("Reusing logic with custom hooks", "/learn/reusing-logic-with-custom-hooks",
+    "A custom hook is a function whose name starts with use and that calls other hooks, for example useOnlineStatus(). Custom hooks share stateful logic, not state: each component that calls a hook gets its own independent state. Keep custom hooks focused on a concrete purpose."),
+  page("Error boundaries", "/reference/react/Component#catching-rendering-errors-with-an-error-boundary",
+    "An error boundary is a class component that implements static getDerivedStateFromError and optionally componentDidCatch to catch errors thrown while rendering its children and show a fallback UI. There is no hook equivalent; the react-error-boundary package provides a ready-made component. Error boundaries do not catch errors in event handlers or asynchronous code."),
+  page("Passing props to a component", "/learn/passing-props-to-a-component",
+    "Components receive props as a single object argument, usually destructured: function Avatar({ person, size = 100 }). Default values apply when the prop is undefined. The children prop holds nested JSX. Props are read-only snapshots; a component must not change its own props."),
+  page("Server Components and Server Functions", "/reference/rsc/server-components",
+    "Server Components render ahead of time on the server, can be async and read data directly, and send no JavaScript for themselves to the client. Add the 'use client' directive at the top of a file to mark components that use state, effects or browser APIs. Server Functions, marked with 'use server', can be called from Client Components, for example as form actions. These require a framework such as Next.js."),
+];
@@ -0,0 +1,36 @@
+// Where a search result came from
+export type SearchSource = "react" | "project" | "dependency" | "web";
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  source: SearchSource;
+  // Relevance as ranked by the provider, when it reports one
+  score?: number;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  // Anything the model should know about how complete the results are
+  notes?: string[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+  id: string;
+  label: string;
+  search(query: string, options?: SearchOptions): Promise<SearchResponse>;
+}
+
+// A page of documentation to index, split into sections when it is markdown
+export interface SearchDocument {
+  title: string;
+  url: string;
+  content: string;
+  source: SearchSource;
+}
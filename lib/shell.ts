@@ -0,0 +1,894 @@
+import type { GitLogEntry, TestResults } from "@/hooks/useSandpackAgent";
+import type { FileChanges, FileSnapshot } from "@/lib/checkpoints";
+import { globToRegExp } from "@/lib/glob";
+import { compileGrepPattern, MAX_MATCHES_PER_FILE, MAX_TOTAL_MATCHES } from "@/lib/grep";
+
+export class ShellError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShellError";
+  }
+}
+
+// One row of isomorphic-git's statusMatrix: [filepath, head, workdir, stage]
+export type GitStatusRow = [string, number, number, number];
+
+// The repository operations the shell's git command can use
+export interface ShellGit {
+  currentBranch(): Promise<string | null>;
+  statusMatrix(): Promise<GitStatusRow[]>;
+  // Unified diff of the working copy against HEAD, limited to `paths` when given
+  diff(paths: string[]): Promise<string>;
+  log(depth: number): Promise<GitLogEntry[]>;
+}
+
+export interface ShellEnvironment {
+  files: FileSnapshot;
+  // Write pending file changes before a command that reads outside the shell, like git or tests
+  applyChanges(changes: FileChanges): Promise<void>;
+  git?: ShellGit;
+  // Run the test suite and resolve with the results once it completes
+  runTests?: () => Promise<TestResults>;
+  signal?: AbortSignal;
+}
+
+export interface ShellResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  // Content of every file the command changed, null for deleted files
+  changes: FileChanges;
+  // What those files held before the command, null for files it created
+  previous: FileChanges;
+}
+
+export const SHELL_COMMANDS = ["ls", "cat", "grep", "mv", "cp", "rm", "mkdir", "pwd", "echo", "git", "npm"];
+
+// Output past this many characters is cut, so a broad cat or grep cannot flood the context
+const MAX_OUTPUT_LENGTH = 20000;
+
+interface Token {
+  type: "word" | "operator";
+  value: string;
+  // Words with quoted parts are not glob-expanded
+  quoted?: boolean;
+}
+
+/**
+ * Split a command line into words and the operators &&, ||, ; and |. Single and double
+ * quotes and backslash escapes work as in sh; substitutions and redirections do not.
+ */
+export function tokenize(command: string): Token[] {
+  const tokens: Token[] = [];
+  let word = "";
+  let inWord = false;
+  let quoted = false;
+
+  const endWord = () => {
+    if (inWord) tokens.push({ type: "word", value: word, quoted });
+    word = "";
+    inWord = false;
+    quoted = false;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    const next = command[i + 1];
+
+    if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) throw new ShellError("unterminated single quote");
+      word += command.slice(i + 1, end);
+      inWord = true;
+      quoted = true;
+      i = end;
+    } else if (char === '"') {
+      let j = i + 1;
+      for (; j < command.length && command[j] !== '"'; j++) {
+        if (command[j] === "\\" && ['"', "\\", "$", "`"].includes(command[j + 1])) j++;
+        else if (command[j] === "$" || command[j] === "`") {
+          throw new ShellError("variables and command substitution are not supported");
+        }
+        word += command[j];
+      }
+      if (j >= command.length) throw new ShellError("unterminated double quote");
+      inWord = true;
+      quoted = true;
+      i = j;
+    } else if (char === "\\") {
+      if (i + 1 < command.length) word += command[++i];
+      inWord = true;
+      quoted = true;
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else if ((char === "&" || char === "|") && next === char) {
+      endWord();
+      tokens.push({ type: "operator", value: char + next });
+      i++;
+    } else if (char === ";" || char === "|") {
+      endWord();
+      tokens.push({ type: "operator", value: char });
+    } else if (char === "&") {
+      throw new ShellError("background jobs with & are not supported; set is_background instead");
+    } else if (char === ">" || char === "<") {
+      throw new ShellError("redirection is not supported; use edit_file or create_file to write files");
+    } else if (char === "$" || char === "`") {
+      throw new ShellError("variables and command substitution are not supported");
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  endWord();
+  return tokens;
+}
+
+// A pipeline is commands joined by |; a list joins pipelines with &&, || and ;
+interface Pipeline {
+  commands: Token[][];
+  // The operator that decides whether this pipeline runs after the previous one
+  after: string | null;
+}
+
+function parse(tokens: Token[]): Pipeline[] {
+  const pipelines: Pipeline[] = [];
+  let current: Pipeline = { commands: [[]], after: null };
+
+  for (const token of tokens) {
+    if (token.type === "word") {
+      current.commands[current.commands.length - 1].push(token);
+      continue;
+    }
+    if (current.commands[current.commands.length - 1].length === 0) {
+      throw new ShellError(`syntax error near unexpected token '${token.value}'`);
+    }
+    if (token.value === "|") {
+      current.commands.push([]);
+    } else {
+      pipelines.push(current);
+      current = { commands: [[]], after: token.value };
+    }
+  }
+
+  if (current.commands[current.commands.length - 1].length === 0) {
+    // A trailing ; ends the list; any other operator needs a command after it
+    if (current.after === ";" && current.commands.length === 1) return pipelines;
+    if (current.after !== null || current.commands.length > 1) {
+      throw new ShellError("syntax error: unexpected end of command");
+    }
+    return pipelines;
+  }
+  pipelines.push(current);
+  return pipelines;
+}
+
+/**
+ * Resolve a path against the project root, which is the shell's only working directory.
+ */
+export function resolvePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") parts.pop();
+    else parts.push(part);
+  }
+  return `/${parts.join("/")}`;
+}
+
+const basename = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+
+// The files and directories being worked on by one command line
+class ShellState {
+  files: FileSnapshot;
+  // Directories made with mkdir; Sandpack only keeps directories that contain files
+  emptyDirs = new Set<string>();
+  original: FileChanges = {};
+  pending: FileChanges = {};
+
+  constructor(files: FileSnapshot) {
+    this.files = { ...files };
+  }
+
+  isFile(path: string) {
+    return path in this.files;
+  }
+
+  isDirectory(path: string) {
+    if (path === "/" || this.emptyDirs.has(path)) return true;
+    const prefix = `${path}/`;
+    return Object.keys(this.files).some((file) => file.startsWith(prefix));
+  }
+
+  exists(path: string) {
+    return this.isFile(path) || this.isDirectory(path);
+  }
+
+  // Files under a directory, deepest paths included
+  filesUnder(dir: string) {
+    const prefix = dir === "/" ? "/" : `${dir}/`;
+    return Object.keys(this.files).filter((file) => file.startsWith(prefix)).sort();
+  }
+
+  // Immediate children of a directory, directories marked with a trailing slash
+  children(dir: string) {
+    const prefix = dir === "/" ? "/" : `${dir}/`;
+    const entries = new Set<string>();
+    for (const path of [...Object.keys(this.files), ...this.emptyDirs]) {
+      if (!path.startsWith(prefix) || path === dir) continue;
+      const rest = path.slice(prefix.length);
+      const slash = rest.indexOf("/");
+      const isDir = slash !== -1 || this.emptyDirs.has(path);
+      entries.add(slash === -1 ? `${rest}${isDir ? "/" : ""}` : `${rest.slice(0, slash)}/`);
+    }
+    return [...entries].sort();
+  }
+
+  write(path: string, content: string | null) {
+    if (!(path in this.original)) {
+      this.original[path] = this.files[path] ?? null;
+    }
+    if (content === null) {
+      delete this.files[path];
+    } else {
+      this.files[path] = content;
+      // The directory exists for real now that it holds a file
+      for (let dir = path.slice(0, path.lastIndexOf("/")); dir; dir = dir.slice(0, dir.lastIndexOf("/"))) {
+        this.emptyDirs.delete(dir);
+      }
+    }
+    this.pending[path] = content;
+  }
+
+  // Paths whose content differs from before the command, with their old and new content
+  summary() {
+    const changes: FileChanges = {};
+    const previous: FileChanges = {};
+    for (const [path, before] of Object.entries(this.original)) {
+      const after = this.files[path] ?? null;
+      if (before !== after) {
+        changes[path] = after;
+        previous[path] = before;
+      }
+    }
+    return { changes, previous };
+  }
+}
+
+interface CommandOutput {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+type Builtin = (args: string[], state: ShellState, env: ShellEnvironment, stdin: string | null) => Promise<CommandOutput>;
+
+const ok = (stdout = ""): CommandOutput => ({ exitCode: 0, stdout, stderr: "" });
+const fail = (stderr: string, exitCode = 1): CommandOutput => ({
+  exitCode,
+  stdout: "",
+  stderr: stderr.endsWith("\n") ? stderr : `${stderr}\n`,
+});
+const lines = (items: string[]) => (items.length > 0 ? `${items.join("\n")}\n` : "");
+
+// Separate flags (including combined ones like -rn) from operands; -- ends the flags
+function parseFlags(
+  command: string,
+  args: string[],
+  short: string,
+  { long = [], withValue = "" }: { long?: string[]; withValue?: string } = {}
+): { flags: Set<string>; values: Record<string, string[]>; operands: string[] } {
+  const flags = new Set<string>();
+  const values: Record<string, string[]> = {};
+  const operands: string[] = [];
+  let flagsDone = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (flagsDone || !arg.startsWith("-") || arg === "-") {
+      operands.push(arg);
+      continue;
+    }
+    if (arg === "--") {
+      flagsDone = true;
+      continue;
+    }
+    if (arg.startsWith("--")) {
+      const equals = arg.indexOf("=");
+      const name = arg.slice(2, equals === -1 ? undefined : equals);
+      const value = equals === -1 ? undefined : arg.slice(equals + 1);
+      if (!long.includes(name)) throw new ShellError(`${command}: unrecognized option '${arg}'`);
+      if (value !== undefined) (values[name] ??= []).push(value);
+      else flags.add(name);
+      continue;
+    }
+    for (let j = 1; j < arg.length; j++) {
+      const flag = arg[j];
+      if (!short.includes(flag)) throw new ShellError(`${command}: invalid option -- '${flag}'`);
+      if (withValue.includes(flag)) {
+        const value = arg.slice(j + 1) || args[++i];
+        if (value === undefined) throw new ShellError(`${command}: option requires an argument -- '${flag}'`);
+        (values[flag] ??= []).push(value);
+        break;
+      }
+      flags.add(flag);
+    }
+  }
+  return { flags, values, operands };
+}
+
+// Expand * and ? in unquoted words against the files and directories that exist
+function expandGlobs(words: Token[], state: ShellState): string[] {
+  return words.flatMap((word) => {
+    if (word.quoted || !/[*?]/.test(word.value)) return [word.value];
+    const absolute = word.value.startsWith("/");
+    const pattern = globToRegExp(resolvePath(word.value));
+    const candidates = new Set<string>();
+    for (const file of Object.keys(state.files)) {
+      for (let path = file; path; path = path.slice(0, path.lastIndexOf("/"))) {
+        candidates.add(path);
+      }
+    }
+    const matches = [...candidates].filter((path) => pattern.test(path)).sort();
+    if (matches.length === 0) return [word.value];
+    return matches.map((path) => (absolute ? path : path.slice(1)));
+  });
+}
+
+// Display a resolved path the way the user wrote it: relative unless it started with /
+const displayPath = (path: string, asWritten: string) => (asWritten.startsWith("/") ? path : path.slice(1) || ".");
+
+const ls: Builtin = async (args, state) => {
+  const { flags, operands } = parseFlags("ls", args, "alR1");
+  const targets = operands.length > 0 ? operands : ["."];
+  const output: string[] = [];
+  const errors: string[] = [];
+  const showHidden = flags.has("a");
+
+  const listing = (dir: string) => {
+    const entries = state.children(dir).filter((entry) => showHidden || !entry.startsWith("."));
+    if (!flags.has("l")) return entries;
+    return entries.map((entry) => {
+      const path = resolvePath(`${dir}/${entry}`);
+      const size = entry.endsWith("/") ? "-" : String(state.files[path].length);
+      return `${size.padStart(8)}  ${entry}`;
+    });
+  };
+
+  const files = targets.filter((target) => state.isFile(resolvePath(target)));
+  const dirs = targets.filter((target) => !state.isFile(resolvePath(target)) && state.isDirectory(resolvePath(target)));
+  for (const target of targets) {
+    if (!state.exists(resolvePath(target))) {
+      errors.push(`ls: cannot access '${target}': No such file or directory`);
+    }
+  }
+
+  output.push(...files.map((file) => (flags.has("l") ? `${String(state.files[resolvePath(file)].length).padStart(8)}  ${file}` : file)));
+  for (const target of dirs) {
+    const dir = resolvePath(target);
+    const subdirs = flags.has("R")
+      ? [dir, ...new Set(state.filesUnder(dir).flatMap((file) => {
+          const parents: string[] = [];
+          for (let parent = file.slice(0, file.lastIndexOf("/")); parent.length > dir.length; parent = parent.slice(0, parent.lastIndexOf("/"))) {
+            parents.push(parent);
+          }
+          return parents;
+        }))].sort()
+      : [dir];
+    for (const subdir of subdirs) {
+      if (!showHidden && subdir.slice(dir.length).split("/").some((part) => part.startsWith("."))) continue;
+      if (targets.length > 1 || files.length > 0 || flags.has("R")) {
+        if (output.length > 0) output.push("");
+        output.push(`${subdir === dir ? target : displayPath(subdir, target)}:`);
+      }
+      output.push(...listing(subdir));
+    }
+  }
+
+  return { exitCode: errors.length > 0 ? 2 : 0, stdout: lines(output), stderr: lines(errors) };
+};
+
+const cat: Builtin = async (args, state, _env, stdin) => {
+  const { flags, operands } = parseFlags("cat", args, "n");
+  const errors: string[] = [];
+  let stdout = "";
+
+  const sources = operands.length > 0 ? operands : ["-"];
+  for (const operand of sources) {
+    const path = resolvePath(operand);
+    let content: string;
+    if (operand === "-") {
+      content = stdin ?? "";
+    } else if (state.isFile(path)) {
+      content = state.files[path];
+    } else {
+      errors.push(`cat: ${operand}: ${state.isDirectory(path) ? "Is a directory" : "No such file or directory"}`);
+      continue;
+    }
+    stdout += content;
+    if (content && !content.endsWith("\n")) stdout += "\n";
+  }
+
+  if (flags.has("n")) {
+    stdout = lines(stdout.replace(/\n$/, "").split("\n").map((line, i) => `${String(i + 1).padStart(6)}\t${line}`));
+  }
+  return { exitCode: errors.length > 0 ? 1 : 0, stdout, stderr: lines(errors) };
+};
+
+const grep: Builtin = async (args, state, _env, stdin) => {
+  const { flags, values, operands } = parseFlags("grep", args, "inrRlLcvwFEhHe", {
+    long: ["include", "exclude"],
+    withValue: "e",
+  });
+  const patterns = values.e ?? (operands.length > 0 ? [operands.shift()!] : []);
+  if (patterns.length === 0) {
+    return fail("usage: grep [-inrlcvwFE] [-e pattern] pattern [file...]", 2);
+  }
+
+  // Patterns that could hang the tab are searched for as literal text, as in grep_search
+  const notes: string[] = [];
+  const regexes = patterns.map((query) => {
+    const { pattern, note } = compileGrepPattern(query, { caseSensitive: !flags.has("i"), literal: flags.has("F") });
+    if (note) notes.push(`grep: ${note}`);
+    const source = flags.has("w") ? `\\b(?:${pattern.source})\\b` : pattern.source;
+    return new RegExp(source, flags.has("i") ? "i" : "");
+  });
+
+  const include = (values.include ?? []).map(globToRegExp);
+  const exclude = (values.exclude ?? []).map(globToRegExp);
+  const wanted = (path: string) =>
+    (include.length === 0 || include.some((pattern) => pattern.test(basename(path)))) &&
+    !exclude.some((pattern) => pattern.test(basename(path)));
+
+  // With no files, read stdin from a pipe or search the whole project
+  const errors: string[] = [];
+  const targets: Array<{ name: string; content: string }> = [];
+  if (operands.length === 0 && stdin !== null) {
+    targets.push({ name: "(standard input)", content: stdin });
+  } else {
+    for (const operand of operands.length > 0 ? operands : ["."]) {
+      const path = resolvePath(operand);
+      if (state.isFile(path)) {
+        targets.push({ name: operand, content: state.files[path] });
+      } else if (state.isDirectory(path)) {
+        for (const file of state.filesUnder(path).filter(wanted)) {
+          targets.push({ name: displayPath(file, operand), content: state.files[file] });
+        }
+      } else {
+        errors.push(`grep: ${operand}: No such file or directory`);
+      }
+    }
+  }
+
+  const searchedDirectory = operands.length === 0 ? stdin === null : operands.some((operand) => state.isDirectory(resolvePath(operand)));
+  const showNames = flags.has("H") || (!flags.has("h") && (targets.length > 1 || searchedDirectory));
+  const output: string[] = [];
+  let matched = false;
+  let printed = 0;
+  let omitted = 0;
+  for (const { name, content } of targets) {
+    const fileLines = content.replace(/\n$/, "").split("\n");
+    const hits = fileLines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => regexes.some((regex) => regex.test(line)) !== flags.has("v"));
+    if (hits.length > 0) matched = true;
+
+    if (flags.has("l")) {
+      if (hits.length > 0) output.push(name);
+    } else if (flags.has("L")) {
+      if (hits.length === 0) output.push(name);
+    } else if (flags.has("c")) {
+      output.push(showNames ? `${name}:${hits.length}` : String(hits.length));
+    } else {
+      const shown = hits.slice(0, Math.min(MAX_MATCHES_PER_FILE, MAX_TOTAL_MATCHES - printed));
+      for (const { line, index } of shown) {
+        output.push(`${showNames ? `${name}:` : ""}${flags.has("n") ? `${index + 1}:` : ""}${line}`);
+      }
+      printed += shown.length;
+      omitted += hits.length - shown.length;
+    }
+  }
+  if (omitted > 0) {
+    notes.push(`grep: ${omitted} more matching lines not shown (at most ${MAX_MATCHES_PER_FILE} per file and ${MAX_TOTAL_MATCHES} in total); narrow the pattern or paths, or use -c or -l`);
+  }
+
+  return { exitCode: errors.length > 0 ? 2 : matched ? 0 : 1, stdout: lines(output), stderr: lines([...errors, ...notes]) };
+};
+
+// Copy or move files and directories; a trailing operand that is a directory receives the others
+function transfer(command: "cp" | "mv", args: string[], state: ShellState): CommandOutput {
+  const { flags, operands } = parseFlags(command, args, command === "cp" ? "rRfn" : "fn");
+  if (operands.length < 2) {
+    return fail(`${command}: missing destination file operand after '${operands[0] ?? ""}'`);
+  }
+
+  const destOperand = operands[operands.length - 1];
+  const dest = resolvePath(destOperand);
+  const sources = operands.slice(0, -1);
+  const intoDirectory = state.isDirectory(dest) || destOperand.endsWith("/") || sources.length > 1;
+  if (intoDirectory && !state.isDirectory(dest)) {
+    return fail(`${command}: target '${destOperand}' is not a directory`);
+  }
+
+  const errors: string[] = [];
+  for (const operand of sources) {
+    const source = resolvePath(operand);
+    const target = intoDirectory ? resolvePath(`${dest}/${basename(source)}`) : dest;
+
+    if (!state.exists(source)) {
+      errors.push(`${command}: cannot stat '${operand}': No such file or directory`);
+      continue;
+    }
+    if (source === target) {
+      errors.push(`${command}: '${operand}' and '${destOperand}' are the same file`);
+      continue;
+    }
+
+    if (state.isFile(source)) {
+      if (state.isDirectory(target)) {
+        errors.push(`${command}: cannot overwrite directory '${displayPath(target, destOperand)}' with non-directory`);
+        continue;
+      }
+      if (flags.has("n") && state.isFile(target)) continue;
+      const content = state.files[source];
+      state.write(target, content);
+      if (command === "mv") state.write(source, null);
+      continue;
+    }
+
+    if (command === "cp" && !flags.has("r") && !flags.has("R")) {
+      errors.push(`cp: -r not specified; omitting directory '${operand}'`);
+      continue;
+    }
+    if (target.startsWith(`${source}/`)) {
+      errors.push(`${command}: cannot ${command === "cp" ? "copy" : "move"} a directory, '${operand}', into itself, '${destOperand}'`);
+      continue;
+    }
+    if (state.isFile(target)) {
+      errors.push(`${command}: cannot overwrite non-directory '${displayPath(target, destOperand)}' with directory '${operand}'`);
+      continue;
+    }
+    for (const file of state.filesUnder(source)) {
+      const copy = `${target}${file.slice(source.length)}`;
+      if (flags.has("n") && state.isFile(copy)) continue;
+      state.write(copy, state.files[file]);
+      if (command === "mv") state.write(file, null);
+    }
+    if (state.emptyDirs.delete(source)) state.emptyDirs.add(target);
+    if (command === "cp" && state.filesUnder(source).length === 0) state.emptyDirs.add(target);
+  }
+
+  return { exitCode: errors.length > 0 ? 1 : 0, stdout: "", stderr: lines(errors) };
+}
+
+const mv: Builtin = async (args, state) => transfer("mv", args, state);
+const cp: Builtin = async (args, state) => transfer("cp", args, state);
+
+const rm: Builtin = async (args, state) => {
+  const { flags, operands } = parseFlags("rm", args, "rRfd");
+  if (operands.length === 0) {
+    return flags.has("f") ? ok() : fail("rm: missing operand");
+  }
+
+  const errors: string[] = [];
+  for (const operand of operands) {
+    const path = resolvePath(operand);
+    if (path === "/") {
+      errors.push("rm: it is dangerous to operate recursively on '/'");
+      continue;
+    }
+    if (state.isFile(path)) {
+      state.write(path, null);
+    } else if (state.isDirectory(path)) {
+      const contents = state.filesUnder(path);
+      if (!flags.has("r") && !flags.has("R") && !(flags.has("d") && contents.length === 0)) {
+        errors.push(`rm: cannot remove '${operand}': Is a directory`);
+        continue;
+      }
+      contents.forEach((file) => state.write(file, null));
+      for (const dir of [...state.emptyDirs]) {
+        if (dir === path || dir.startsWith(`${path}/`)) state.emptyDirs.delete(dir);
+      }
+    } else if (!flags.has("f")) {
+      errors.push(`rm: cannot remove '${operand}': No such file or directory`);
+    }
+  }
+
+  return { exitCode: errors.length > 0 ? 1 : 0, stdout: "", stderr: lines(errors) };
+};
+
+const mkdir: Builtin = async (args, state) => {
+  const { flags, operands } = parseFlags("mkdir", args, "pv");
+  if (operands.length === 0) return fail("mkdir: missing operand");
+
+  const errors: string[] = [];
+  const created: string[] = [];
+  for (const operand of operands) {
+    const path = resolvePath(operand);
+    if (state.isFile(path)) {
+      errors.push(`mkdir: cannot create directory '${operand}': File exists`);
+      continue;
+    }
+    if (state.isDirectory(path)) {
+      if (!flags.has("p")) errors.push(`mkdir: cannot create directory '${operand}': File exists`);
+      continue;
+    }
+    const parent = path.slice(0, path.lastIndexOf("/")) || "/";
+    if (!flags.has("p") && !state.isDirectory(parent)) {
+      errors.push(`mkdir: cannot create directory '${operand}': No such file or directory`);
+      continue;
+    }
+    state.emptyDirs.add(path);
+    created.push(operand);
+  }
+
+  // Sandpack has no empty directories, so say why the directory will not be listed later
+  const note = created.length > 0
+    ? `mkdir: note: ${created.map((dir) => `'${dir}'`).join(", ")} exist${created.length === 1 ? "s" : ""} for this command only; a directory is kept once a file is created in it\n`
+    : "";
+  return { exitCode: errors.length > 0 ? 1 : 0, stdout: "", stderr: lines(errors) + note };
+};
+
+const pwd: Builtin = async () => ok("/\n");
+
+const echo: Builtin = async (args) => {
+  const noNewline = args[0] === "-n";
+  const text = (noNewline ? args.slice(1) : args).join(" ");
+  return ok(noNewline ? text : `${text}\n`);
+};
+
+/**
+ * Describe the working copy like `git status`, from isomorphic-git's status matrix.
+ */
+export function formatGitStatus(branch: string | null, rows: GitStatusRow[]): string {
+  const staged: string[] = [];
+  const unstaged: string[] = [];
+  const untracked: string[] = [];
+
+  for (const [path, head, workdir, stage] of rows) {
+    // stage is 0 when absent, 1 when it matches HEAD, 2 when it matches the working copy and 3 otherwise
+    if (head === 0 && stage !== 0) staged.push(`new file:   ${path}`);
+    else if (head === 1 && stage === 0) staged.push(`deleted:    ${path}`);
+    else if (head === 1 && (stage === 3 || (stage === 2 && workdir === 2))) staged.push(`modified:   ${path}`);
+
+    if (stage === 0 && workdir === 2) untracked.push(path);
+    else if (workdir === 0 && stage !== 0) unstaged.push(`deleted:    ${path}`);
+    else if ((stage === 1 && workdir === 2) || stage === 3) unstaged.push(`modified:   ${path}`);
+  }
+
+  const output = [branch ? `On branch ${branch}` : "HEAD detached"];
+  if (staged.length > 0) {
+    output.push("", "Changes to be committed:", ...staged.map((line) => `\t${line}`));
+  }
+  if (unstaged.length > 0) {
+    output.push("", "Changes not staged for commit:", ...unstaged.map((line) => `\t${line}`));
+  }
+  if (untracked.length > 0) {
+    output.push("", "Untracked files:", ...untracked.map((path) => `\t${path}`));
+  }
+  if (staged.length + unstaged.length + untracked.length === 0) {
+    output.push("nothing to commit, working tree clean");
+  }
+  return `${output.join("\n")}\n`;
+}
+
+const gitCommand: Builtin = async (args, state, env) => {
+  if (!env.git) {
+    return fail("fatal: not a git repository. Connect a repository in the Git panel to use git.", 128);
+  }
+  const [subcommand, ...rest] = args;
+
+  // Git reads the repository's working copy, so it has to see this command's earlier changes
+  await flushChanges(state, env);
+
+  switch (subcommand) {
+    case "status":
+      return ok(formatGitStatus(await env.git.currentBranch(), await env.git.statusMatrix()));
+    case "diff": {
+      const { operands } = parseFlags("git diff", rest, "");
+      const paths = operands.map((operand) => resolvePath(operand).slice(1));
+      const diff = await env.git.diff(paths);
+      return ok(diff && !diff.endsWith("\n") ? `${diff}\n` : diff);
+    }
+    case "log": {
+      const numbered = rest.map((arg) => (/^-\d+$/.test(arg) ? `-n${arg.slice(1)}` : arg.replace(/^--max-count=/, "-n")));
+      const { flags, values } = parseFlags("git log", numbered, "n", { long: ["oneline"], withValue: "n" });
+      const depth = Number(values.n?.[values.n.length - 1] ?? 10);
+      if (!Number.isInteger(depth) || depth < 1) {
+        return fail(`fatal: invalid maximum count '${values.n?.[0]}'`, 128);
+      }
+      const commits = await env.git.log(depth);
+      const output = commits.map((commit) =>
+        flags.has("oneline")
+          ? `${commit.oid.slice(0, 7)} ${commit.message.split("\n")[0]}`
+          : `commit ${commit.oid}\nAuthor: ${commit.author}\nDate:   ${commit.timestamp}\n\n${commit.message.split("\n").map((line) => `    ${line}`).join("\n")}\n`
+      );
+      return ok(lines(output));
+    }
+    case undefined:
+      return fail("usage: git status | git diff [path...] | git log [-n N] [--oneline]");
+    default:
+      return fail(`git: '${subcommand}' is not available here. Only status, diff and log can run; commit and push from the Git panel.`);
+  }
+};
+
+interface TestCase {
+  name: string;
+  status: "pass" | "fail" | string;
+  duration?: number;
+  errors?: Array<{ message: string }>;
+}
+
+// Walk a test file's describe blocks, yielding every test with the names of the blocks around it
+function collectTests(node: { tests?: Record<string, any>; describes?: Record<string, any> }, path: string[] = []): Array<{ path: string[]; test: TestCase }> {
+  const tests = Object.values(node.tests ?? {}).map((test: TestCase) => ({ path: [...path, test.name], test }));
+  for (const describe of Object.values(node.describes ?? {})) {
+    tests.push(...collectTests(describe, [...path, describe.name]));
+  }
+  return tests;
+}
+
+/**
+ * Report test results in the layout of Jest's verbose output, optionally limited to
+ * test files whose path contains `filter`.
+ */
+export function formatTestResults(results: TestResults, filter?: string): { output: string; failed: number; passed: number } {
+  const output: string[] = [];
+  let failed = 0;
+  let passed = 0;
+  let failedFiles = 0;
+  let fileCount = 0;
+
+  for (const [filePath, fileResult] of Object.entries(results).sort(([a], [b]) => a.localeCompare(b))) {
+    if (filter && !filePath.includes(filter)) continue;
+    fileCount++;
+    const tests = collectTests(fileResult);
+    const failures = tests.filter(({ test }) => test.status === "fail");
+    if (failures.length > 0) failedFiles++;
+    failed += failures.length;
+    passed += tests.filter(({ test }) => test.status === "pass").length;
+
+    output.push(`${failures.length > 0 ? "FAIL" : "PASS"} ${filePath}`);
+    for (const { path, test } of tests) {
+      const mark = test.status === "pass" ? "✓" : test.status === "fail" ? "✕" : "○";
+      output.push(`  ${mark} ${path.join(" › ")}${test.duration !== undefined ? ` (${test.duration} ms)` : ""}`);
+    }
+    for (const { path, test } of failures) {
+      output.push("", `  ● ${path.join(" › ")}`, "");
+      for (const error of test.errors ?? []) {
+        output.push(...error.message.split("\n").map((line) => `    ${line}`));
+      }
+    }
+    output.push("");
+  }
+
+  if (fileCount === 0) {
+    return { output: filter ? `No tests found matching "${filter}"\n` : "No tests found\n", failed, passed };
+  }
+  output.push(
+    `Test Suites: ${failedFiles > 0 ? `${failedFiles} failed, ` : ""}${fileCount - failedFiles} passed, ${fileCount} total`,
+    `Tests:       ${failed > 0 ? `${failed} failed, ` : ""}${passed} passed, ${failed + passed} total`
+  );
+  return { output: `${output.join("\n")}\n`, failed, passed };
+}
+
+const TEST_SCRIPTS = new Set(["test", "t"]);
+
+const npm: Builtin = async (args, state, env) => {
+  // npm test, npm t and npm run test, with an optional file filter after --
+  const [first, second, ...rest] = args;
+  const isTest = TEST_SCRIPTS.has(first) || (first === "run" && second === "test");
+  if (!isTest) {
+    return fail(
+      `npm: only 'npm test' can run here. Sandpack installs the dependencies listed in package.json; edit that file to add or remove packages.`
+    );
+  }
+  if (!env.runTests) {
+    return fail("npm: the test runner is not available");
+  }
+
+  const extra = first === "run" ? rest : [second, ...rest].filter((arg) => arg !== undefined);
+  const filter = extra.filter((arg) => arg !== "--" && !arg.startsWith("-"))[0];
+
+  await flushChanges(state, env);
+  const { output, failed } = formatTestResults(await env.runTests(), filter);
+  return { exitCode: failed > 0 ? 1 : 0, stdout: output, stderr: "" };
+};
+
+const BUILTINS: Record<string, Builtin> = { ls, cat, grep, mv, cp, rm, mkdir, pwd, echo, git: gitCommand, npm };
+
+// yarn and pnpm run the same test script as npm
+const ALIASES: Record<string, string> = { yarn: "npm", pnpm: "npm" };
+
+async function flushChanges(state: ShellState, env: ShellEnvironment) {
+  if (Object.keys(state.pending).length === 0) return;
+  const pending = state.pending;
+  state.pending = {};
+  await env.applyChanges(pending);
+}
+
+// The commands that write to project files; mkdir only makes directories for the command itself
+const FILE_CHANGING_COMMANDS = new Set(["mv", "cp", "rm"]);
+
+/**
+ * Whether a command line runs a command that can change project files, in any of its
+ * pipelines. A line that does not parse runs nothing, so it changes nothing.
+ */
+export function mayChangeFiles(command: string): boolean {
+  try {
+    return parse(tokenize(command)).some((pipeline) =>
+      pipeline.commands.some(([name]) => name !== undefined && FILE_CHANGING_COMMANDS.has(name.value))
+    );
+  } catch (error) {
+    if (error instanceof ShellError) return false;
+    throw error;
+  }
+}
+
+function truncate(text: string) {
+  if (text.length <= MAX_OUTPUT_LENGTH) return text;
+  const omitted = text.slice(MAX_OUTPUT_LENGTH).split("\n").length;
+  return `${text.slice(0, MAX_OUTPUT_LENGTH)}\n... output truncated (${omitted} more lines)\n`;
+}
+
+/**
+ * Run a command line against the project files. Commands operate on a copy of the files;
+ * changes are written through `env.applyChanges` when the command ends, or earlier when
+ * git or the test runner need to see them.
+ */
+export async function runShellCommand(command: string, env: ShellEnvironment): Promise<ShellResult> {
+  const state = new ShellState(env.files);
+  let stdout = "";
+  let stderr = "";
+  let exitCode = 0;
+
+  const finish = async (): Promise<ShellResult> => {
+    await flushChanges(state, env);
+    return { exitCode, stdout: truncate(stdout), stderr: truncate(stderr), ...state.summary() };
+  };
+
+  let pipelines: Pipeline[];
+  try {
+    pipelines = parse(tokenize(command));
+  } catch (error) {
+    if (!(error instanceof ShellError)) throw error;
+    return { exitCode: 2, stdout: "", stderr: `sh: ${error.message}\n`, changes: {}, previous: {} };
+  }
+
+  for (const pipeline of pipelines) {
+    if ((pipeline.after === "&&" && exitCode !== 0) || (pipeline.after === "||" && exitCode === 0)) {
+      continue;
+    }
+
+    let stdin: string | null = null;
+    for (const words of pipeline.commands) {
+      env.signal?.throwIfAborted();
+
+      const [name, ...args] = expandGlobs(words, state);
+      const builtin = BUILTINS[ALIASES[name] ?? name];
+      let result: CommandOutput;
+      if (!builtin) {
+        result = fail(
+          `sh: ${name}: command not found. Available commands: ${SHELL_COMMANDS.join(", ")}${name === "cd" ? ". Commands always run from the project root" : ""}`,
+          127
+        );
+      } else {
+        try {
+          result = await builtin(args, state, env, stdin);
+        } catch (error) {
+          // Aborts end the whole command line; anything else fails only this command
+          if (env.signal?.aborted) throw error;
+          result = error instanceof ShellError
+            ? fail(error.message, 2)
+            : fail(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      stderr += result.stderr;
+      stdin = result.stdout;
+      exitCode = result.exitCode;
+    }
+    stdout += stdin ?? "";
+  }
+
+  return finish();
+}
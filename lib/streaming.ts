@@ -0,0 +1,166 @@
+import type { LLMStreamCallbacks } from "@/hooks/useSandpackAgent";
+import { ProviderError, ProviderNetworkError } from "@/lib/providers/errors";
+
+// The HTTP status each error type in an Anthropic stream would have had as a response
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+/**
+ * Read the next chunk of a response body. A connection lost mid-stream is thrown as a
+ * ProviderNetworkError, like one lost before the response; cancellations are rethrown as they are.
+ */
+async function readChunk(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  try {
+    return await reader.read();
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") throw error;
+    throw new ProviderNetworkError(
+      `Connection lost while streaming the response: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Splits a server-sent events body into parsed JSON payloads, one per event.
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<any> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await readChunk(reader);
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const data = rawEvent
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+
+      if (!data || data === "[DONE]") continue;
+      yield JSON.parse(data);
+    }
+  }
+}
+
+/**
+ * Splits a newline-delimited JSON body (as streamed by Ollama) into parsed objects.
+ */
+export async function* readJSONLines(response: Response): AsyncGenerator<any> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await readChunk(reader);
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line);
+      }
+    }
+
+    if (done) break;
+  }
+}
+
+/**
+ * Consumes an Anthropic Messages API stream (`stream: true`), forwarding text and
+ * tool input deltas to the callbacks, and resolves with the assembled message in
+ * the same shape as a non-streaming response.
+ */
+export async function readAnthropicStream(
+  response: Response,
+  callbacks: LLMStreamCallbacks = {}
+) {
+  let message: any = { role: "assistant", content: [] };
+  const blocks: any[] = [];
+  const partialJson: Record<number, string> = {};
+
+  for await (const event of readServerSentEvents(response)) {
+    switch (event.type) {
+      case "message_start":
+        message = { ...event.message, content: [] };
+        break;
+
+      case "content_block_start": {
+        const block = { ...event.content_block };
+        blocks[event.index] = block;
+        if (block.type === "tool_use") {
+          partialJson[event.index] = "";
+          callbacks.onToolUseStart?.({ id: block.id, name: block.name });
+        } else if (block.type === "text" && block.text) {
+          callbacks.onTextDelta?.(block.text);
+        }
+        break;
+      }
+
+      case "content_block_delta": {
+        const block = blocks[event.index];
+        if (!block) break;
+        if (event.delta.type === "text_delta") {
+          block.text = (block.text || "") + event.delta.text;
+          callbacks.onTextDelta?.(event.delta.text);
+        } else if (event.delta.type === "input_json_delta") {
+          partialJson[event.index] += event.delta.partial_json;
+          callbacks.onToolUseDelta?.(block.id, partialJson[event.index]);
+        } else if (event.delta.type === "thinking_delta") {
+          block.thinking = (block.thinking || "") + event.delta.thinking;
+        } else if (event.delta.type === "signature_delta") {
+          // The signature lets the thinking be sent back on the next request of the turn
+          block.signature = event.delta.signature;
+        }
+        break;
+      }
+
+      case "content_block_stop": {
+        const block = blocks[event.index];
+        if (block?.type === "tool_use") {
+          const json = partialJson[event.index];
+          block.input = json ? JSON.parse(json) : {};
+        }
+        break;
+      }
+
+      case "message_delta":
+        message = {
+          ...message,
+          ...event.delta,
+          usage: { ...message.usage, ...event.usage },
+        };
+        break;
+
+      case "error":
+        // Errors after the response started still say whether retrying can help
+        throw new ProviderError(
+          event.error?.message || "Stream error from Anthropic",
+          STREAM_ERROR_STATUS[event.error?.type]
+        );
+    }
+  }
+
+  return { ...message, content: blocks.filter(Boolean) };
+}
@@ -0,0 +1,697 @@
+export type SymbolKind = "function" | "component" | "class" | "method" | "interface" | "type" | "enum" | "variable";
+
+export interface SymbolInfo {
+  name: string;
+  kind: SymbolKind;
+  filePath: string;
+  // 1-based and inclusive
+  line: number;
+  endLine: number;
+  // The first line of the declaration
+  signature: string;
+  exported: boolean;
+  isDefault?: boolean;
+  // The class a method belongs to
+  container?: string;
+}
+
+// One name an import brings in. `imported` is "default", "*" for a namespace, or the exported name
+export interface ImportBinding {
+  imported: string;
+  local: string;
+}
+
+export interface ImportInfo {
+  // The module specifier as written
+  source: string;
+  // The project file it refers to; absent for packages and paths that do not exist
+  resolved?: string;
+  line: number;
+  endLine: number;
+  bindings: ImportBinding[];
+  typeOnly: boolean;
+  // export ... from: the bindings are re-exported under their local names instead of bound
+  reexport?: boolean;
+  // import("...") or require("...")
+  dynamic?: boolean;
+}
+
+export interface ExportInfo {
+  // The name other modules import, "default" for the default export
+  exported: string;
+  // The name declared in this file
+  local: string;
+  line: number;
+}
+
+export interface FileSymbols {
+  filePath: string;
+  symbols: SymbolInfo[];
+  imports: ImportInfo[];
+  exports: ExportInfo[];
+}
+
+export type ReferenceKind = "definition" | "import" | "export" | "reference";
+
+export interface SymbolReference {
+  filePath: string;
+  line: number;
+  column: number;
+  kind: ReferenceKind;
+  text: string;
+}
+
+export interface ReferenceSearch {
+  definitions: SymbolInfo[];
+  references: SymbolReference[];
+  // True when references were followed through imports of the definition, false for a plain name match
+  scoped: boolean;
+  truncated: boolean;
+}
+
+export interface ImportGraph {
+  filePath: string;
+  imports: ImportInfo[];
+  importedBy: Array<{ filePath: string; line: number; names: string[]; reexport?: boolean }>;
+}
+
+const SOURCE_FILE = /\.(?:[cm]?[jt]sx?)$/;
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+const MAX_REFERENCES = 200;
+
+// Keywords after which a slash starts a regular expression rather than a division
+const REGEX_PRECEDING_KEYWORDS = new Set([
+  "return", "typeof", "case", "do", "else", "in", "of", "void", "yield", "await", "delete", "instanceof", "new", "throw",
+]);
+
+/**
+ * Blank out comments and the contents of strings, template literals and regular
+ * expressions, keeping offsets, line breaks and quote characters in place. Searches over
+ * the result only see code, and a match's offset still points into the original.
+ */
+export function maskSource(content: string): string {
+  const out = content.split("");
+  // Brace depth inside each open template literal ${...} expression
+  const templateStack: number[] = [];
+  let i = 0;
+
+  const blank = (from: number, to: number) => {
+    for (let j = from; j < to; j++) {
+      if (out[j] !== "\n") out[j] = " ";
+    }
+  };
+
+  // Scan template literal text from i until it closes or an expression opens
+  const scanTemplate = () => {
+    const start = i;
+    while (i < content.length) {
+      if (content[i] === "\\") {
+        i += 2;
+      } else if (content[i] === "`") {
+        blank(start, i);
+        i++;
+        return;
+      } else if (content[i] === "$" && content[i + 1] === "{") {
+        blank(start, i);
+        templateStack.push(0);
+        i += 2;
+        return;
+      } else {
+        i++;
+      }
+    }
+    blank(start, i);
+  };
+
+  const startsRegex = (at: number) => {
+    let j = at - 1;
+    while (j >= 0 && /\s/.test(out[j])) j--;
+    if (j < 0) return true;
+    const previous = out[j];
+    if (/[\w$]/.test(previous)) {
+      let k = j;
+      while (k >= 0 && /[\w$]/.test(out[k])) k--;
+      return REGEX_PRECEDING_KEYWORDS.has(out.slice(k + 1, j + 1).join(""));
+    }
+    // "<" and ">" are left out so JSX closing tags and arrows are not read as regexes
+    return "(,=:[!&|?{};+-*%~^".includes(previous);
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+    const next = content[i + 1];
+
+    if (char === "/" && next === "/") {
+      const end = content.indexOf("\n", i);
+      const stop = end === -1 ? content.length : end;
+      blank(i, stop);
+      i = stop;
+    } else if (char === "/" && next === "*") {
+      const end = content.indexOf("*/", i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      blank(i, stop);
+      i = stop;
+    } else if (char === "'" || char === '"') {
+      let j = i + 1;
+      while (j < content.length && content[j] !== char && content[j] !== "\n") {
+        j += content[j] === "\\" ? 2 : 1;
+      }
+      if (j < content.length && content[j] === char) {
+        blank(i + 1, j);
+        i = j + 1;
+      } else {
+        // Unterminated on its line, so not a string: an apostrophe in JSX text, like "Don't"
+        i++;
+      }
+    } else if (char === "`") {
+      i++;
+      scanTemplate();
+    } else if (char === "/" && next !== ">" && startsRegex(i)) {
+      let j = i + 1;
+      let inClass = false;
+      while (j < content.length && content[j] !== "\n" && (inClass || content[j] !== "/")) {
+        if (content[j] === "\\") j++;
+        else if (content[j] === "[") inClass = true;
+        else if (content[j] === "]") inClass = false;
+        j++;
+      }
+      blank(i + 1, j);
+      i = j + 1;
+    } else {
+      if (templateStack.length > 0) {
+        if (char === "{") {
+          templateStack[templateStack.length - 1]++;
+        } else if (char === "}") {
+          if (templateStack[templateStack.length - 1] === 0) {
+            templateStack.pop();
+            i++;
+            scanTemplate();
+            continue;
+          }
+          templateStack[templateStack.length - 1]--;
+        }
+      }
+      i++;
+    }
+  }
+
+  return out.join("");
+}
+
+// Bracket depth at the start of each line, counting (), [] and {}
+function lineDepths(masked: string): number[] {
+  const depths = [0];
+  let depth = 0;
+  for (const char of masked) {
+    if (char === "\n") depths.push(depth);
+    else if (char === "(" || char === "[" || char === "{") depth++;
+    else if (char === ")" || char === "]" || char === "}") depth = Math.max(0, depth - 1);
+  }
+  return depths;
+}
+
+// Last line (0-based) of a declaration starting at `line`: the lines after it that stay nested deeper
+function declarationEnd(depths: number[], line: number): number {
+  let end = line + 1;
+  while (end < depths.length && depths[end] > depths[line]) end++;
+  return end - 1;
+}
+
+const lineAt = (masked: string, offset: number) => {
+  let line = 0;
+  for (let i = masked.indexOf("\n"); i !== -1 && i < offset; i = masked.indexOf("\n", i + 1)) line++;
+  return line;
+};
+
+// The text of the quoted string whose opening quote is at `offset` in the masked source
+const readQuoted = (content: string, masked: string, offset: number) => {
+  const end = masked.indexOf(masked[offset], offset + 1);
+  return content.slice(offset + 1, end === -1 ? undefined : end);
+};
+
+const DECLARATION =
+  /^\s*(export\s+)?(default\s+)?(?:declare\s+)?(?:(?:async\s+)?function\s*\*?\s*([\w$]+)?|(?:abstract\s+)?class(?:\s+([\w$]+))?|interface\s+([\w$]+)|type\s+([\w$]+)|(?:const\s+)?enum\s+([\w$]+)|(?:const|let|var)\s+([\w$]+|[{[][^=]*))/;
+// What makes a variable a function: an arrow, a function expression or a React wrapper
+const FUNCTION_VALUE =
+  /^\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>|(?:React\.)?(?:memo|forwardRef|lazy|useCallback)\s*\()/;
+const CLASS_MEMBER =
+  /^\s*(?:(?:public|private|protected|static|readonly|async|override|abstract|get|set)\s+)*(#?[\w$]+)\s*(?:<[^>]*>)?\s*(?:\(|(?::[^=]+)?=\s*(?:async\s+)?(?:\([^)]*\)|[\w$]+)\s*(?::[^=]+)?=>)/;
+const DEFAULT_EXPORT_EXPRESSION = /^\s*export\s+default\s+(?!(?:async\s+)?function\b|(?:abstract\s+)?class\b|interface\b)(.*)/;
+const NOT_MEMBERS = new Set(["if", "for", "while", "switch", "catch", "return", "function", "super"]);
+
+// Names bound by a destructuring pattern: identifiers not used as a key
+const destructuredNames = (pattern: string) =>
+  (pattern.match(/[A-Za-z_$][\w$]*(?=\s*(?:[,}\]=]|$))/g) ?? []).filter((name) => name !== "undefined");
+
+// Bindings of an import clause such as `React, { useState as useLocalState, type FC }`
+function parseImportClause(clause: string): ImportBinding[] {
+  const bindings: ImportBinding[] = [];
+  const named = clause.match(/\{([^}]*)\}/);
+  const rest = clause.replace(/\{[^}]*\}/, "");
+
+  const namespace = rest.match(/\*\s*as\s+([\w$]+)/);
+  if (namespace) bindings.push({ imported: "*", local: namespace[1] });
+  const defaultName = rest.match(/^\s*([\w$]+)/);
+  if (defaultName && defaultName[1] !== "type") bindings.push({ imported: "default", local: defaultName[1] });
+
+  if (named) bindings.push(...parseNamedList(named[1]));
+  return bindings;
+}
+
+// `a, b as c, type d` → bindings from exported to local names
+function parseNamedList(list: string): ImportBinding[] {
+  return list
+    .split(",")
+    .map((part) => part.trim().replace(/^type\s+/, ""))
+    .filter(Boolean)
+    .map((part) => {
+      const [imported, local] = part.split(/\s+as\s+/);
+      return { imported: imported.trim(), local: (local ?? imported).trim() };
+    });
+}
+
+const isComponentName = (name: string) => /^[A-Z][A-Za-z0-9]*$/.test(name);
+// Closing or self-closing tags are a reliable sign of JSX; a bare "<" is often a comparison
+const containsJSX = (masked: string) => /<\/[\w.]*>|\/>|React\.createElement/.test(masked);
+
+/**
+ * Find the declarations, imports and exports of a JavaScript or TypeScript file. This
+ * is a scan of the source rather than a full parse: declarations are recognized at the
+ * top level and as members of top-level classes.
+ */
+export function analyzeFile(filePath: string, content: string): FileSymbols {
+  const masked = maskSource(content);
+  const lines = content.split("\n");
+  const maskedLines = masked.split("\n");
+  const depths = lineDepths(masked);
+  const symbols: SymbolInfo[] = [];
+  const imports: ImportInfo[] = [];
+  const exports: ExportInfo[] = [];
+
+  const signatureAt = (line: number) => lines[line].trim().slice(0, 200);
+  const bodyOf = (line: number, endLine: number) => maskedLines.slice(line, endLine + 1).join("\n");
+
+  maskedLines.forEach((text, line) => {
+    if (depths[line] !== 0) return;
+    const match = text.match(DECLARATION);
+    if (!match) {
+      const defaultExport = text.match(DEFAULT_EXPORT_EXPRESSION);
+      if (defaultExport) {
+        // `export default App` or `export default memo(App)` name the local being exported
+        const local = defaultExport[1].match(/^(?:[\w$.]+\()*([\w$]+)\)*\s*;?\s*$/);
+        exports.push({ exported: "default", local: local ? local[1] : "default", line: line + 1 });
+        if (!local && /^\s*(?:async\s+)?(?:\([^)]*\)|[\w$]+)\s*=>/.test(defaultExport[1])) {
+          const endLine = declarationEnd(depths, line);
+          symbols.push({
+            name: "default",
+            kind: containsJSX(bodyOf(line, endLine)) ? "component" : "function",
+            filePath,
+            line: line + 1,
+            endLine: endLine + 1,
+            signature: signatureAt(line),
+            exported: true,
+            isDefault: true,
+          });
+        }
+      }
+      return;
+    }
+
+    const [, exportKeyword, defaultKeyword, functionName, className, interfaceName, typeName, enumName, variable] = match;
+    const exported = !!exportKeyword;
+    const isDefault = !!defaultKeyword;
+    const endLine = declarationEnd(depths, line);
+    const base = { filePath, line: line + 1, endLine: endLine + 1, signature: signatureAt(line), exported };
+
+    const add = (name: string, kind: SymbolKind) => {
+      symbols.push({ ...base, name, kind, ...(isDefault ? { isDefault } : {}) });
+      if (exported) exports.push({ exported: isDefault ? "default" : name, local: name, line: line + 1 });
+    };
+
+    if (variable !== undefined) {
+      if (/^[{[]/.test(variable)) {
+        destructuredNames(variable).forEach((name) => add(name, "variable"));
+        return;
+      }
+      const rest = text.slice(text.indexOf(variable) + variable.length) + "\n" + maskedLines.slice(line + 1, line + 3).join("\n");
+      const isFunction = FUNCTION_VALUE.test(rest);
+      add(variable, isFunction && isComponentName(variable) && containsJSX(bodyOf(line, endLine)) ? "component" : isFunction ? "function" : "variable");
+    } else if (interfaceName) {
+      add(interfaceName, "interface");
+    } else if (typeName) {
+      add(typeName, "type");
+    } else if (enumName) {
+      add(enumName, "enum");
+    } else if (/\bclass\b/.test(text)) {
+      const name = className ?? "default";
+      add(name, "class");
+      for (let member = line + 1; member < endLine; member++) {
+        if (depths[member] !== 1) continue;
+        const memberMatch = maskedLines[member].match(CLASS_MEMBER);
+        if (memberMatch && !NOT_MEMBERS.has(memberMatch[1])) {
+          symbols.push({
+            name: memberMatch[1],
+            kind: "method",
+            filePath,
+            line: member + 1,
+            endLine: declarationEnd(depths, member) + 1,
+            signature: signatureAt(member),
+            exported: false,
+            container: name,
+          });
+        }
+      }
+    } else {
+      const name = functionName ?? "default";
+      add(name, isComponentName(name) && containsJSX(bodyOf(line, endLine)) ? "component" : "function");
+    }
+  });
+
+  const addImport = (offset: number, end: number, quoteOffset: number, info: Omit<ImportInfo, "source" | "line" | "endLine">) => {
+    imports.push({
+      source: readQuoted(content, masked, quoteOffset),
+      line: lineAt(masked, offset) + 1,
+      endLine: lineAt(masked, end) + 1,
+      ...info,
+    });
+  };
+
+  for (const match of matchAll(masked, /^[ \t]*import\s+(type\s+)?([^;]*?)\s*from\s*(["'])/gm)) {
+    const quoteOffset = match.index + match[0].length - 1;
+    addImport(match.index, quoteOffset, quoteOffset, { bindings: parseImportClause(match[2]), typeOnly: !!match[1] });
+  }
+  for (const match of matchAll(masked, /^[ \t]*import\s*(["'])/gm)) {
+    const quoteOffset = match.index + match[0].length - 1;
+    addImport(match.index, quoteOffset, quoteOffset, { bindings: [], typeOnly: false });
+  }
+  for (const match of matchAll(masked, /^[ \t]*export\s+(type\s+)?(\*(?:\s+as\s+([\w$]+))?|\{[^}]*\})\s*from\s*(["'])/gm)) {
+    const quoteOffset = match.index + match[0].length - 1;
+    const bindings = match[2].startsWith("*")
+      ? [{ imported: "*", local: match[3] ?? "*" }]
+      : parseNamedList(match[2].slice(1, -1));
+    addImport(match.index, quoteOffset, quoteOffset, { bindings, typeOnly: !!match[1], reexport: true });
+  }
+  for (const match of matchAll(masked, /(?:const|let|var)\s+(\{[^}]*\}|[\w$]+)\s*=\s*require\(\s*(["'])/g)) {
+    const quoteOffset = match.index + match[0].length - 1;
+    const bindings = match[1].startsWith("{")
+      ? match[1].slice(1, -1).split(",").filter((part) => part.trim()).map((part) => {
+        const [imported, local] = part.split(":").map((name) => name.trim());
+        return { imported, local: local ?? imported };
+      })
+      : [{ imported: "*", local: match[1] }];
+    addImport(match.index, quoteOffset, quoteOffset, { bindings, typeOnly: false, dynamic: true });
+  }
+  for (const match of matchAll(masked, /\bimport\(\s*(["'])/g)) {
+    const quoteOffset = match.index + match[0].length - 1;
+    addImport(match.index, quoteOffset, quoteOffset, { bindings: [], typeOnly: false, dynamic: true });
+  }
+  for (const match of matchAll(masked, /^[ \t]*export\s+(?:type\s+)?\{([^}]*)\}(?!\s*from)/gm)) {
+    for (const { imported, local } of parseNamedList(match[1])) {
+      exports.push({ exported: local, local: imported, line: lineAt(masked, match.index) + 1 });
+    }
+  }
+
+  imports.sort((a, b) => a.line - b.line);
+  return { filePath, symbols, imports, exports };
+}
+
+function matchAll(text: string, pattern: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    matches.push(match);
+  }
+  return matches;
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return "/" + parts.join("/");
+}
+
+/**
+ * A symbol index over the project's JavaScript and TypeScript files, for navigating by
+ * definitions and imports rather than by text. Like CodebaseIndex, `update` re-analyzes
+ * only the files whose content changed.
+ */
+export class SymbolIndex {
+  private files = new Map<string, { content: string; masked: string; symbols: FileSymbols }>();
+
+  update(files: Record<string, string>) {
+    for (const filePath of this.files.keys()) {
+      if (!(filePath in files)) this.files.delete(filePath);
+    }
+    for (const [filePath, content] of Object.entries(files)) {
+      if (!SOURCE_FILE.test(filePath) || filePath.includes("/node_modules/")) continue;
+      if (this.files.get(filePath)?.content === content) continue;
+      this.files.set(filePath, { content, masked: maskSource(content), symbols: analyzeFile(filePath, content) });
+    }
+  }
+
+  has(filePath: string) {
+    return this.files.has(filePath);
+  }
+
+  /**
+   * The project file an import specifier refers to. Relative paths, absolute paths and
+   * the `@/` alias (for the root or `src/`) are resolved; packages are not.
+   */
+  resolveImport(fromFile: string, source: string): string | undefined {
+    let bases: string[];
+    if (source.startsWith(".")) {
+      bases = [normalizePath(`${fromFile.slice(0, fromFile.lastIndexOf("/"))}/${source}`)];
+    } else if (source.startsWith("/")) {
+      bases = [normalizePath(source)];
+    } else if (source.startsWith("@/")) {
+      bases = [normalizePath(source.slice(1)), normalizePath(`/src${source.slice(1)}`)];
+    } else {
+      return undefined;
+    }
+
+    for (const base of bases) {
+      const candidates = [
+        base,
+        ...RESOLVE_EXTENSIONS.map((extension) => base + extension),
+        ...RESOLVE_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+      ];
+      const found = candidates.find((candidate) => this.files.has(candidate));
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  listSymbols(filePath: string): FileSymbols | undefined {
+    const entry = this.files.get(filePath);
+    if (!entry) return undefined;
+    return { ...entry.symbols, imports: this.resolveImports(filePath) };
+  }
+
+  importGraph(filePath: string): ImportGraph | undefined {
+    if (!this.files.has(filePath)) return undefined;
+
+    const importedBy: ImportGraph["importedBy"] = [];
+    for (const otherPath of this.files.keys()) {
+      if (otherPath === filePath) continue;
+      for (const info of this.resolveImports(otherPath)) {
+        if (info.resolved === filePath) {
+          importedBy.push({
+            filePath: otherPath,
+            line: info.line,
+            names: info.bindings.map(({ imported, local }) => (imported === local ? imported : `${imported} as ${local}`)),
+            ...(info.reexport ? { reexport: true } : {}),
+          });
+        }
+      }
+    }
+
+    return { filePath, imports: this.resolveImports(filePath), importedBy };
+  }
+
+  /**
+   * Where a name is declared. From a file, the name is looked up the way that file sees
+   * it: its own declarations first, then its imports followed to the module that declares
+   * them, re-exports included. `Class.method` and `namespace.member` are understood.
+   * Without a file, or when nothing is found that way, every declaration of the name is
+   * returned, exported ones first.
+   */
+  findDefinition(name: string, fromFile?: string): SymbolInfo[] {
+    const [container, member] = name.includes(".") ? name.split(".", 2) : [undefined, name];
+
+    if (fromFile && this.files.has(fromFile)) {
+      const found = container ? this.lookupMember(fromFile, container, member) : this.lookupLocal(fromFile, member);
+      if (found.length > 0) return found;
+    }
+
+    const all = [...this.files.values()].flatMap(({ symbols }) =>
+      symbols.symbols.filter((symbol) => symbol.name === member && (!container || symbol.container === container))
+    );
+    return all.sort((a, b) => Number(b.exported) - Number(a.exported));
+  }
+
+  /**
+   * Uses of a name. When it resolves to a single top-level declaration, only that
+   * declaration's file and the files importing it (under whatever local name) are
+   * searched, so unrelated symbols with the same name are left out. Otherwise every
+   * file is searched for the identifier.
+   */
+  findReferences(name: string, fromFile?: string): ReferenceSearch {
+    const definitions = this.findDefinition(name, fromFile);
+    const declared = definitions.filter((definition) => !definition.container);
+    const memberName = name.includes(".") ? name.split(".", 2)[1] : name;
+
+    if (declared.length === 1) {
+      const definition = declared[0];
+      const searches = [{ filePath: definition.filePath, pattern: definition.name, member: false }];
+      for (const filePath of this.files.keys()) {
+        if (filePath === definition.filePath) continue;
+        for (const info of this.resolveImports(filePath)) {
+          if (!info.resolved) continue;
+          for (const binding of info.bindings) {
+            if (binding.imported === "*") {
+              const exportedAs = this.exportedNames(definition);
+              const viaNamespace = exportedAs.find((exported) => this.isSameSymbol(this.resolveExport(info.resolved!, exported), definition));
+              if (viaNamespace && !info.reexport) {
+                searches.push({ filePath, pattern: `${binding.local}.${viaNamespace}`, member: false });
+              }
+            } else if (this.isSameSymbol(this.resolveExport(info.resolved, binding.imported), definition)) {
+              searches.push({ filePath, pattern: binding.local, member: false });
+            }
+          }
+        }
+      }
+      return { definitions, ...this.collectReferences(searches, definitions), scoped: true };
+    }
+
+    // Methods, unknown names and ambiguous ones fall back to matching the identifier everywhere
+    const isMember = definitions.length > 0 && definitions.every((definition) => definition.container);
+    const searches = [...this.files.keys()].map((filePath) => ({ filePath, pattern: memberName, member: isMember }));
+    return { definitions, ...this.collectReferences(searches, definitions), scoped: false };
+  }
+
+  private resolveImports(filePath: string): ImportInfo[] {
+    return (this.files.get(filePath)?.symbols.imports ?? []).map((info) => {
+      const resolved = this.resolveImport(filePath, info.source);
+      return resolved ? { ...info, resolved } : info;
+    });
+  }
+
+  // A name as seen from inside a file: declared there, or imported into it
+  private lookupLocal(filePath: string, name: string): SymbolInfo[] {
+    const fileSymbols = this.files.get(filePath)!.symbols;
+    const declared = fileSymbols.symbols.filter((symbol) => symbol.name === name && !symbol.container);
+    if (declared.length > 0) return declared;
+
+    for (const info of this.resolveImports(filePath)) {
+      const binding = info.bindings.find((candidate) => candidate.local === name && candidate.imported !== "*");
+      if (binding && info.resolved) {
+        const symbol = this.resolveExport(info.resolved, binding.imported);
+        if (symbol) return [symbol];
+      }
+    }
+    return [];
+  }
+
+  // `container.member`, where the container is a class or a namespace import
+  private lookupMember(filePath: string, container: string, member: string): SymbolInfo[] {
+    for (const info of this.resolveImports(filePath)) {
+      const namespace = info.bindings.find((binding) => binding.local === container && binding.imported === "*");
+      if (namespace && info.resolved) {
+        const symbol = this.resolveExport(info.resolved, member);
+        return symbol ? [symbol] : [];
+      }
+    }
+    const classes = this.lookupLocal(filePath, container).filter((symbol) => symbol.kind === "class");
+    return classes.flatMap((owner) =>
+      this.files.get(owner.filePath)!.symbols.symbols.filter((symbol) => symbol.container === owner.name && symbol.name === member)
+    );
+  }
+
+  // The declaration a module exports under `exported`, following re-exports
+  private resolveExport(filePath: string, exported: string, seen = new Set<string>()): SymbolInfo | undefined {
+    const key = `${filePath}:${exported}`;
+    if (seen.has(key) || !this.files.has(filePath)) return undefined;
+    seen.add(key);
+
+    const fileSymbols = this.files.get(filePath)!.symbols;
+    const exportInfo = fileSymbols.exports.find((candidate) => candidate.exported === exported);
+    if (exportInfo) {
+      const symbol = fileSymbols.symbols.find((candidate) => candidate.name === exportInfo.local && !candidate.container);
+      if (symbol) return symbol;
+      // Imported and then exported: `import { a } from "./a"; export { a }`
+      for (const info of this.resolveImports(filePath)) {
+        const binding = info.bindings.find((candidate) => candidate.local === exportInfo.local && candidate.imported !== "*");
+        if (binding && info.resolved) return this.resolveExport(info.resolved, binding.imported, seen);
+      }
+    }
+
+    for (const info of this.resolveImports(filePath)) {
+      if (!info.reexport || !info.resolved) continue;
+      const binding = info.bindings.find((candidate) => candidate.local === exported);
+      if (binding && binding.imported !== "*") {
+        return this.resolveExport(info.resolved, binding.imported, seen);
+      }
+      if (exported !== "default" && info.bindings.some((candidate) => candidate.local === "*")) {
+        const symbol = this.resolveExport(info.resolved, exported, seen);
+        if (symbol) return symbol;
+      }
+    }
+    return undefined;
+  }
+
+  private exportedNames(definition: SymbolInfo): string[] {
+    return this.files.get(definition.filePath)!.symbols.exports
+      .filter((exportInfo) => exportInfo.local === definition.name)
+      .map((exportInfo) => exportInfo.exported);
+  }
+
+  private isSameSymbol(a: SymbolInfo | undefined, b: SymbolInfo) {
+    return !!a && a.filePath === b.filePath && a.line === b.line && a.name === b.name;
+  }
+
+  private collectReferences(searches: Array<{ filePath: string; pattern: string; member: boolean }>, definitions: SymbolInfo[]) {
+    const references: SymbolReference[] = [];
+    const seen = new Set<string>();
+    let truncated = false;
+
+    for (const { filePath, pattern, member } of searches) {
+      const entry = this.files.get(filePath);
+      if (!entry) continue;
+      const lines = entry.content.split("\n");
+      const { imports, exports } = entry.symbols;
+
+      entry.masked.split("\n").forEach((text, index) => {
+        for (let column = text.indexOf(pattern); column !== -1; column = text.indexOf(pattern, column + 1)) {
+          const before = text[column - 1] ?? "";
+          const after = text[column + pattern.length] ?? "";
+          const line = index + 1;
+          const isDefinition = definitions.some((definition) => definition.filePath === filePath && definition.line === line);
+          // Whole identifiers only; member references need the dot, others must not have one
+          if (/[\w$]/.test(after) || /[\w$]/.test(before)) continue;
+          if (member ? before !== "." && !isDefinition : before === ".") continue;
+
+          const key = `${filePath}:${line}:${column}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          if (references.length >= MAX_REFERENCES) {
+            truncated = true;
+            return;
+          }
+
+          const kind: ReferenceKind = isDefinition
+            ? "definition"
+            : imports.some((info) => line >= info.line && line <= info.endLine && !info.reexport)
+              ? "import"
+              : imports.some((info) => line >= info.line && line <= info.endLine) || exports.some((info) => info.line === line && !/^\s*export\s+(?:default\s+)?(?:async\s+)?(?:function|class|const|let|var)\b/.test(text))
+                ? "export"
+                : "reference";
+          references.push({ filePath, line, column: column + 1, kind, text: lines[index].trim().slice(0, 200) });
+        }
+      });
+    }
+
+    return { references, truncated };
+  }
+}
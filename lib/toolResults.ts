@@ -0,0 +1,104 @@
+import type { ToolCall, ToolResult } from "@/hooks/useSandpackAgent";
+import { countChanges, createHunks, formatUnifiedDiff, splitLines, type DiffHunk } from "@/lib/diff";
+
+// A tool_result sent to the model is cut down to this many characters unless configured otherwise
+export const DEFAULT_MAX_TOOL_RESULT_CHARS = 20000;
+
+// Share of a truncated result kept from its start; the rest comes from its end
+const TRUNCATION_HEAD_SHARE = 0.6;
+
+// The fields of a result the model sees, given the call that produced it
+type ToolResultSerializer = (result: ToolResult, toolCall: ToolCall) => Record<string, any>;
+
+// Hunks of results saved before results carried their own, worked out once each
+const computedHunks = new WeakMap<ToolResult, DiffHunk[]>();
+
+/**
+ * The diff hunks of a result that changed a file: an edit, or a create_file that
+ * replaced a file. Results carry them from when they are created, so neither the chat
+ * nor each request diffs the file again. Returns undefined for other results.
+ */
+export function getEditHunks(result: ToolResult): DiffHunk[] | undefined {
+  if (result.hunks) return result.hunks;
+  const before = typeof result.oldContent === "string" ? result.oldContent : result.previousContent;
+  const after = typeof result.oldContent === "string" ? result.newContent : result.content;
+  if (typeof before !== "string" || typeof after !== "string") return undefined;
+  let hunks = computedHunks.get(result);
+  if (!hunks) {
+    hunks = createHunks(before, after);
+    computedHunks.set(result, hunks);
+  }
+  return hunks;
+}
+
+// A new result with the hunks of the change it made, if it made one
+export function withEditHunks(result: ToolResult): ToolResult {
+  const hunks = getEditHunks(result);
+  return hunks ? { ...result, hunks } : result;
+}
+
+// The change an edit made, as a unified diff with line counts instead of both versions of the file
+function summarizeEdit(filePath: string, oldContent: string | null, newContent: string | null, hunks: DiffHunk[]) {
+  const { additions, deletions } = countChanges(hunks);
+  return { diff: formatUnifiedDiff(filePath, oldContent, newContent, 3, hunks), additions, deletions };
+}
+
+const serializeEdit: ToolResultSerializer = (result, toolCall) => {
+  const { oldContent, newContent, hunks, ...rest } = result;
+  if (oldContent === undefined || newContent === undefined) return rest;
+  // reapply names its file target_file, and already carries the diff
+  const filePath = toolCall.arguments.file_path ?? toolCall.arguments.target_file ?? "";
+  return { ...rest, ...summarizeEdit(filePath, oldContent, newContent, getEditHunks(result) ?? []) };
+};
+
+/**
+ * What each tool sends the model in place of its full result. The model wrote the content
+ * of its own edits, so they come back as diffs; the full result stays on the message for
+ * the UI and for undo.
+ */
+const SERIALIZERS: Record<string, ToolResultSerializer> = {
+  edit_file: serializeEdit,
+  str_replace: serializeEdit,
+  insert_at_line: serializeEdit,
+  apply_patch: serializeEdit,
+  reapply: serializeEdit,
+  create_file: (result, toolCall) => {
+    const { content, previousContent, hunks, ...rest } = result;
+    if (content === undefined) return rest;
+    return previousContent === undefined
+      ? { ...rest, lineCount: splitLines(content).length }
+      : { ...rest, replacedExistingFile: true, ...summarizeEdit(toolCall.arguments.file_path ?? "", previousContent, content, getEditHunks(result) ?? []) };
+  },
+  delete_file: ({ deletedContent, ...rest }) =>
+    deletedContent === undefined ? rest : { ...rest, deletedLines: splitLines(deletedContent).length },
+  // previousFiles is only there so the command can be undone
+  run_terminal_cmd: ({ previousFiles, ...rest }) => rest,
+};
+
+/**
+ * Cut text longer than `maxChars` down to its start and end, with a marker saying how
+ * much was left out in between.
+ */
+export function truncateMiddle(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const head = Math.floor(maxChars * TRUNCATION_HEAD_SHARE);
+  const tail = maxChars - head;
+  const omitted = text.length - head - tail;
+  return `${text.slice(0, head)}\n\n[... ${omitted} characters omitted; the tool result was longer than ${maxChars} characters ...]\n\n${text.slice(text.length - tail)}`;
+}
+
+/**
+ * The content of the tool_result block the model receives for a result: the fields its
+ * tool's serializer keeps, as JSON, truncated to `maxChars`. Results whose call is not
+ * known are sent whole, up to the same limit.
+ */
+export function serializeToolResult(
+  result: ToolResult | string,
+  toolCall: ToolCall | undefined,
+  maxChars = DEFAULT_MAX_TOOL_RESULT_CHARS
+): string {
+  if (typeof result === "string") return truncateMiddle(result, maxChars);
+  const serializer = toolCall && SERIALIZERS[toolCall.name];
+  const payload = serializer ? serializer(result, toolCall) : result;
+  return truncateMiddle(JSON.stringify(payload), maxChars);
+}
@@ -0,0 +1,142 @@
+import type { LLMUsage } from "@/lib/providers/types";
+
+// Token counts for one or more LLM calls. Input excludes tokens read from or written to the cache.
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+// Usage of a set of calls with what they cost
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  // In US dollars, for the calls whose model has a price
+  cost: number;
+  // Calls whose model is not in the price table, so their cost is unknown
+  unpricedCalls: number;
+}
+
+// The usage of one user turn, including any continuations of it
+export interface TurnUsage extends UsageTotals {
+  // The user message that started the turn
+  messageId: string;
+}
+
+// US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/**
+ * Prices for common models, matched by the longest prefix of the model name. Calls to other
+ * models are counted but not priced; pass your own table to useSandpackAgent for them.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "claude-opus-4": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  "claude-3-opus": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-3-haiku": { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
+  "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25, cacheWrite: 0 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075, cacheWrite: 0 },
+  "gpt-4.1": { input: 2, output: 8, cacheRead: 0.5, cacheWrite: 0 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cacheRead: 0.1, cacheWrite: 0 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4, cacheRead: 0.025, cacheWrite: 0 },
+  "o3-mini": { input: 1.1, output: 4.4, cacheRead: 0.55, cacheWrite: 0 },
+};
+
+export const EMPTY_USAGE: UsageTotals = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadTokens: 0,
+  cacheWriteTokens: 0,
+  calls: 0,
+  cost: 0,
+  unpricedCalls: 0,
+};
+
+/**
+ * Read the usage block of a response. Adapters report usage in the Anthropic shape;
+ * missing counts are zero.
+ */
+export function readUsage(usage: LLMUsage | undefined): TokenUsage {
+  return {
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    cacheReadTokens: usage?.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: usage?.cache_creation_input_tokens ?? 0,
+  };
+}
+
+// The price of a model, from the longest matching name prefix
+export function findModelPrice(model: string | undefined, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (!model) return undefined;
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? undefined : prices[prefix];
+}
+
+/**
+ * What one call cost in US dollars, or null when its model has no price.
+ */
+export function priceUsage(usage: TokenUsage, price: ModelPrice | undefined): number | null {
+  if (!price) return null;
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheReadTokens * price.cacheRead +
+    usage.cacheWriteTokens * price.cacheWrite
+  ) / 1000000;
+}
+
+/**
+ * Add one call to a running total.
+ */
+export function addUsage<T extends UsageTotals>(totals: T, usage: TokenUsage, cost: number | null): T {
+  return {
+    ...totals,
+    inputTokens: totals.inputTokens + usage.inputTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+    cacheReadTokens: totals.cacheReadTokens + usage.cacheReadTokens,
+    cacheWriteTokens: totals.cacheWriteTokens + usage.cacheWriteTokens,
+    calls: totals.calls + 1,
+    cost: totals.cost + (cost ?? 0),
+    unpricedCalls: totals.unpricedCalls + (cost === null ? 1 : 0),
+  };
+}
+
+// The usage of several turns together, e.g. a whole session
+export const sumUsage = (turns: UsageTotals[]): UsageTotals =>
+  turns.reduce((total, turn) => ({
+    inputTokens: total.inputTokens + turn.inputTokens,
+    outputTokens: total.outputTokens + turn.outputTokens,
+    cacheReadTokens: total.cacheReadTokens + turn.cacheReadTokens,
+    cacheWriteTokens: total.cacheWriteTokens + turn.cacheWriteTokens,
+    calls: total.calls + turn.calls,
+    cost: total.cost + turn.cost,
+    unpricedCalls: total.unpricedCalls + turn.unpricedCalls,
+  }), EMPTY_USAGE);
+
+// Every token a call sent, cached or not
+export const totalInputTokens = (usage: TokenUsage) =>
+  usage.inputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+
+// The share of input tokens read from the prompt cache, from 0 to 1
+export const cacheHitRate = (usage: TokenUsage) => {
+  const total = totalInputTokens(usage);
+  return total === 0 ? 0 : usage.cacheReadTokens / total;
+};
+
+export const formatTokenCount = (tokens: number) =>
+  tokens >= 1000000 ? `${(tokens / 1000000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+// Small amounts keep enough digits to not round to zero
+export const formatCost = (dollars: number) =>
+  `$${dollars > 0 && dollars < 0.01 ? dollars.toFixed(4) : dollars.toFixed(2)}`;
@@ -0,0 +1,73 @@
+import { act, renderHook } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useSandpackAgent } from "@/hooks/useSandpackAgent";
+import { createReplayCallLLM, type ReplayFixture } from "@/lib/providers";
+import greetHelper from "./fixtures/greet-helper.json";
+
+// The hook only needs Sandpack's files and the calls that change them, so it runs
+// against this in-memory project instead of a bundler
+const sandbox = vi.hoisted(() => ({ files: {} as Record<string, { code: string }> }));
+
+vi.mock("@codesandbox/sandpack-react", async () => {
+  const { useState } = await import("react");
+  return {
+    useSandpack: () => {
+      const [files, setFiles] = useState(sandbox.files);
+      const write = (update: (files: Record<string, { code: string }>) => Record<string, { code: string }>) => {
+        sandbox.files = update(sandbox.files);
+        setFiles(sandbox.files);
+      };
+      return {
+        sandpack: {
+          files,
+          activeFile: "/App.js",
+          addFile: (path: string, code: string) => write((current) => ({ ...current, [path]: { code } })),
+          updateFile: (path: string, code: string) => write((current) => ({ ...current, [path]: { code } })),
+          deleteFile: (path: string) => write(({ [path]: _deleted, ...rest }) => rest),
+          runSandpack: async () => {},
+        },
+      };
+    },
+  };
+});
+
+describe("useSandpackAgent replay", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sandbox.files = {
+      "/App.js": { code: "export default function App() {\n  return <h1>Hello world</h1>;\n}\n" },
+      "/index.js": { code: "import App from \"./App\";\n" },
+    };
+  });
+
+  it("replays a recorded session that creates a file and edits another", async () => {
+    const callLLM = createReplayCallLLM(greetHelper as ReplayFixture);
+    const { result } = renderHook(() => useSandpackAgent({ callLLM }));
+
+    await act(() => result.current.sendMessage("Add a greet helper and use it in App.js"));
+
+    callLLM.assertDone();
+    expect(sandbox.files["/greet.js"].code).toBe("export function greet(name) {\n  return `Hello, ${name}!`;\n}\n");
+    expect(sandbox.files["/App.js"].code).toBe(
+      "import { greet } from \"./greet\";\n\nexport default function App() {\n  return <h1>{greet(\"world\")}</h1>;\n}\n"
+    );
+
+    const results = result.current.messages.flatMap((message) => (message.type === "tool_result" ? [message.result.status] : []));
+    expect(results).toEqual(["success", "success"]);
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it("fails the turn when the agent sends a request the script does not expect", async () => {
+    const fixture = structuredClone(greetHelper) as ReplayFixture;
+    fixture.steps[1].expect = { ...fixture.steps[1].expect, toolResultIds: ["toolu_missing"] };
+    const callLLM = createReplayCallLLM(fixture);
+    const { result } = renderHook(() => useSandpackAgent({ callLLM }));
+
+    await act(() => result.current.sendMessage("Add a greet helper and use it in App.js"));
+
+    expect(callLLM.remaining()).toBe(1);
+    expect(sandbox.files["/App.js"].code).toContain("Hello world");
+    const last = result.current.messages[result.current.messages.length - 1];
+    expect(last.type === "assistant_message" && last.content).toContain("did not match the script");
+  });
+});